@@ -1,15 +1,19 @@
 // src/api/mvp.ts
 // Require the model to return a buildless `files` bundle (HTML/JS/CSS/_worker.js).
 // If it doesn't, we 502 with a clear error so the UI won't silently show nothing.
-// Returns proof fields: via, model, oai_request_id, took_ms.
+// Returns proof fields: via, provider, model, oai_request_id, took_ms, usage (tokens + estimated cost).
+// An optional `budget` ({ maxTokens?, maxCostUsd? }) caps the call; going over returns 402.
+// `promptVersion` pins the pages-bundle prompt; the one used comes back as `prompt`.
 // NEW: if the request has ?debug=1, include debug_raw_openai + debug_payload in the response.
 
 import { json } from "@utils/log";
+import { IR_SCHEMA, upgradeIR, type IR } from "@t/ir";
+import { BudgetExceededError, getProvider, parseBudget, usageMeterFor, type Budget, type LlmEnv } from "@llm/index";
+import type { JsonSchema } from "@utils/schema";
+import { getPrompt, renderPrompt } from "@prompts/index";
 
-export interface Env {
-  OPENAI_API_KEY?: string;
-  OPENAI_MODEL?: string; // optional override
-}
+// OPENAI_API_KEY / OPENAI_MODEL, or LLM_PROVIDER=chat|fake and its settings.
+export type Env = LlmEnv;
 
 type ChatMsg = { role: "system" | "user" | "assistant"; content: string };
 
@@ -17,15 +21,8 @@ type MvpRequest = {
   idea?: string;
   ideaId?: string;
   thread?: ChatMsg[];
-};
-
-type IR = {
-  name: string;
-  app_type: "spa_api" | "spa" | "api";
-  pages?: string[];
-  api_routes?: Array<{ method: string; path: string }>;
-  notes?: string;
-  features?: string[];
+  budget?: Budget;
+  promptVersion?: string;
 };
 
 type MvpResult = {
@@ -44,37 +41,29 @@ export async function mvpHandler(req: Request, env: Env): Promise<Response> {
     const idea = (body?.idea || "").trim();
     if (!idea) return json({ ok: false, error: "Missing idea" }, 400);
 
-    const apiKey = env.OPENAI_API_KEY;
-    if (!apiKey) return json({ ok: false, error: "Missing OPENAI_API_KEY" }, 500);
+    let budget: Budget | undefined;
+    const pin = typeof body.promptVersion === "string" ? body.promptVersion : undefined;
+    try {
+      budget = parseBudget(body.budget);
+      if (pin) getPrompt("pages-bundle", pin);
+    } catch (err: any) {
+      return json({ ok: false, error: String(err?.message || err) }, 400);
+    }
+    const meter = usageMeterFor(env, budget);
 
-    const model = env.OPENAI_MODEL || "gpt-4.1-mini";
+    // keep this function's historical default model
+    const provider = getProvider(
+      { ...env, OPENAI_MODEL: env.OPENAI_MODEL || "gpt-4.1-mini" },
+      meter.scope("generate")
+    );
+    const model = provider.model;
 
     // strict schema: must produce buildless `files`
-    const schema = {
+    const schema: JsonSchema = {
       type: "object",
       additionalProperties: false,
       properties: {
-        ir: {
-          type: "object",
-          additionalProperties: true,
-          properties: {
-            name: { type: "string" },
-            app_type: { type: "string", enum: ["spa_api", "spa", "api"] },
-            pages: { type: "array", items: { type: "string" } },
-            api_routes: {
-              type: "array",
-              items: {
-                type: "object",
-                additionalProperties: false,
-                properties: { method: { type: "string" }, path: { type: "string" } },
-                required: ["method", "path"],
-              },
-            },
-            notes: { type: "string" },
-            features: { type: "array", items: { type: "string" } },
-          },
-          required: ["name", "app_type"],
-        },
+        ir: IR_SCHEMA,
         files: {
           type: "object",
           additionalProperties: { type: "string" },
@@ -94,18 +83,7 @@ export async function mvpHandler(req: Request, env: Env): Promise<Response> {
       required: ["ir", "files", "smoke"],
     };
 
-    const sys = [
-      "You are an expert generator for Cloudflare Pages (Advanced Mode).",
-      "Return a SMALL, DEPLOYABLE bundle in `files` ONLY (no `artifacts`).",
-      "Rules:",
-      "- Buildless only: plain HTML/JS/CSS and optional `_worker.js`.",
-      "- NO TypeScript/TSX, NO package.json, NO build steps.",
-      "- Use relative API paths like `/api/echo`.",
-      "- `index.html` must mention the user's idea explicitly.",
-      "Quality:",
-      "- Must run after direct upload to Pages with no changes.",
-      "- Keep filenames flat (index.html, app.js, _worker.js).",
-    ].join("\n");
+    const { text: sys, ref: prompt } = renderPrompt("pages-bundle", {}, pin);
 
     const input: ChatMsg[] = [{ role: "system", content: sys }];
 
@@ -126,44 +104,25 @@ export async function mvpHandler(req: Request, env: Env): Promise<Response> {
         "Return JSON ONLY matching the schema. Include `index.html` and `app.js` in `files`.",
     });
 
-    // call OpenAI Responses API
     const started = Date.now();
-    const r = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        input,
-        response_format: { type: "json_schema", json_schema: { name: "mvp_bundle", schema, strict: true } },
-        temperature: 0.35,
-        max_output_tokens: 3500,
-      }),
-    });
-
-    const oai_request_id = r.headers.get("x-request-id") || null;
-    const took_ms = Date.now() - started;
-    const raw = await r.text();
-
-    if (!r.ok) return json({ ok: false, error: `OpenAI HTTP ${r.status} — ${raw}`, oai_request_id }, 502);
-
-    type Resp = {
-      output_text?: string;
-      output?: Array<{ content?: Array<{ type: string; text?: { value?: string } }> }>;
-    };
-    let parsed: Resp;
+    let res;
     try {
-      parsed = JSON.parse(raw) as Resp;
-    } catch {
-      return json({ ok: false, error: "Malformed JSON from OpenAI", oai_request_id }, 502);
+      res = await provider.complete({
+        messages: input,
+        json: { name: "mvp_bundle", schema },
+        temperature: 0.35,
+      });
+    } catch (err: any) {
+      if (err instanceof BudgetExceededError) {
+        return json({ ok: false, error: err.message, usage: err.usage }, 402);
+      }
+      return json({ ok: false, error: String(err?.message || err) }, 502);
     }
 
-    const payload =
-      parsed.output?.[0]?.content?.find((c) => c.type === "output_text")?.text?.value ??
-      parsed.output_text ??
-      "";
+    const oai_request_id = res.requestId;
+    const took_ms = Date.now() - started;
+    const raw = res.raw;
+    const payload = res.text;
 
     if (!payload) return json({ ok: false, error: "Empty model output", oai_request_id }, 502);
 
@@ -190,7 +149,7 @@ export async function mvpHandler(req: Request, env: Env): Promise<Response> {
     }
 
     // sanitize + limit
-    result.ir ||= { name: "Generated App", app_type: "spa_api" } as IR;
+    result.ir = upgradeIR(result.ir || { name: "Generated App", app_type: "spa_api" });
     result.smoke ||= { passed: true, logs: [] };
 
     const MAX_FILES = 50;
@@ -238,9 +197,12 @@ export async function mvpHandler(req: Request, env: Env): Promise<Response> {
       ok: true,
       result,
       via: "openai-mvp-v1",
+      provider: provider.name,
       model,
       oai_request_id,
       took_ms,
+      usage: meter.report(),
+      prompt,
       ...(debug ? { debug_raw_openai: raw, debug_payload: payload } : {}),
     });
   } catch (err: any) {
@@ -1,22 +1,37 @@
 // app/src/hooks/useDeploymentHandler.ts
-// Streams deployment steps by rewriting a single assistant message.
+// Streams real deployment stages and logs (GET /deployments/:id?stream=true) by rewriting a
+// single assistant message.
 // Uses ONLY plain-object updates (no functional updates).
 
 import { useCallback } from "react";
-import { postJSON } from "../lib/api";
+import { postJSON, streamNDJSON } from "../lib/api";
 
 type DeployResp = {
   ok: boolean;
-  url?: string;
-  repo?: string;
+  deploymentId?: string;
   error?: string;
-  logs?: string[];
+};
+
+type DeploymentEvent =
+  | { event: "stage"; stage: string; at: string }
+  | { event: "log"; stage: string; at: string; message: string }
+  | { event: "done"; deployment: { stage: "deployed" | "failed"; url?: string; error?: string } }
+  | { event: "timeout"; message: string }
+  | { event: "error"; message: string };
+
+const STAGE_LABELS: Record<string, string> = {
+  queued: "Queued…",
+  uploading: "Uploading to Cloudflare…",
+  building: "Building on Cloudflare…",
+  deployed: "Deployed.",
+  failed: "Failed.",
 };
 
 type Idea = {
   id: string;
   messages: Array<{ role: "user" | "assistant"; content: string }>;
   bundle?: Record<string, string>;
+  ir?: unknown; // its D1/KV bindings get provisioned on deploy
 };
 
 export default function useDeploymentHandler(opts: {
@@ -57,33 +72,33 @@ export default function useDeploymentHandler(opts: {
       const fileCount = entries.length;
 
       push(`🚀 Build & Deploy started (${fileCount} files, ~${Math.round(totalBytes / 1024)} KB)…`);
-      [
-        "Packaging artifacts…",
-        "Generating repository files…",
-        "Running typecheck…",
-        "Building SPA…",
-        "Bundling Worker…",
-        "Running smoke tests…",
-        "Uploading to Cloudflare…",
-        "Activating new version…",
-      ].forEach(push);
 
       try {
-        const res = await postJSON<DeployResp>("/api/sandbox-deploy", { id, files, confirm: true });
-
-        if (Array.isArray(res?.logs)) {
-          res.logs.forEach(push);
-          setDeployLogs?.(res.logs);
-        }
-
-        if (!res?.ok) {
+        const res = await postJSON<DeployResp>("/api/sandbox-deploy", { id, files, ir: idea.ir, confirm: true, async: true });
+        if (!res?.ok || !res.deploymentId) {
           push(`❌ Deployment failed. ${res?.error || ""}`.trim());
           return;
         }
 
-        push("✅ Deployment complete.");
-        if (res.url) push(`**App URL:** ${res.url}`);
-        if (res.repo) push(`**Repo:** ${res.repo}`);
+        const logs: string[] = [];
+        await streamNDJSON<DeploymentEvent>(`/api/deployments/${res.deploymentId}?stream=true`, (e) => {
+          if (e.event === "stage" && e.stage !== "deployed" && e.stage !== "failed") {
+            push(STAGE_LABELS[e.stage] || `${e.stage}…`);
+          } else if (e.event === "log") {
+            logs.push(e.message);
+            push(`• ${e.message}`);
+            setDeployLogs?.(logs.slice());
+          } else if (e.event === "done") {
+            if (e.deployment.stage === "deployed") {
+              push("✅ Deployment complete.");
+              if (e.deployment.url) push(`**App URL:** ${e.deployment.url}`);
+            } else {
+              push(`❌ Deployment failed. ${e.deployment.error || ""}`.trim());
+            }
+          } else if (e.event === "timeout" || e.event === "error") {
+            push(`⚠️ ${e.message}`);
+          }
+        });
       } catch (e: any) {
         push(`❌ Deployment error: ${String(e?.message || e)}`);
       }
@@ -4,6 +4,7 @@
 
 import { useCallback, useRef } from "react";
 import { postJSON } from "../lib/api";
+import { upgradeIR, type IR } from "@t/ir";
 
 
 
@@ -20,14 +21,7 @@ type ChatMsg = { role: ChatRole; content: string };
 type MvpResp = {
   ok: boolean;
   result?: {
-    ir?: {
-      name?: string;
-      app_type?: "spa_api" | "spa" | "api";
-      pages?: string[];
-      api_routes?: Array<{ method: string; path: string }>;
-      notes?: string;
-      features?: string[];
-    };
+    ir?: IR;
     files?: Record<string, string>;
     artifacts?: Record<string, string>;
     smoke?: { passed: boolean; logs: string[] };
@@ -145,10 +139,11 @@ export function useSendHandler(opts: UseSendHandlerOpts) {
           return;
         }
 
+        // Older orchestrator builds may still return a v1 IR
+        const ir: IR | undefined = data.result?.ir ? upgradeIR(data.result.ir) : undefined;
         filesByIdea.current.set(id, bundle);
-        opts.updateIdea(id, { bundle, ir: data.result?.ir, currentStage: "build" });
+        opts.updateIdea(id, { bundle, ir, currentStage: "build" });
 
-        const ir = data.result?.ir || {};
         const logs = data.result?.smoke?.logs || [];
         const model = data.model || "unknown-model";
         const reqId = data.oai_request_id || "n/a";
@@ -37,4 +37,23 @@ export async function postJSON<T = any>(path: string, body?: Jsonish, init: Requ
   const data = (await parseJsonSafe(res)) as T;
   if (!res.ok) throw new Error((data as any)?.error || `POST ${url} failed with ${res.status}`);
   return data;
-}
\ No newline at end of file
+}
+/** GET an NDJSON stream and call `onEvent` for each line as it arrives. */
+export async function streamNDJSON<T = any>(path: string, onEvent: (event: T) => void, init: RequestInit = {}): Promise<void> {
+  const url = toPath(path);
+  const res = await fetch(url, { method: "GET", headers: { Accept: "application/x-ndjson", ...(init.headers || {}) }, ...init });
+  if (!res.ok || !res.body) {
+    const data = await parseJsonSafe(res);
+    throw new Error(data?.error || `GET ${url} failed with ${res.status}`);
+  }
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffered += value;
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() || "";
+    for (const line of lines) if (line.trim()) onEvent(JSON.parse(line) as T);
+    if (done) return;
+  }
+}
@@ -1,7 +1,10 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import { fileURLToPath } from "node:url";
 
 export default defineConfig({
   plugins: [react()],
+  // Shared contracts (IR, …) live in the orchestrator source
+  resolve: { alias: { "@t": fileURLToPath(new URL("../src/types", import.meta.url)) } },
   build: { outDir: "dist", sourcemap: false }
-});
\ No newline at end of file
+});
@@ -0,0 +1,115 @@
+import type { Env } from "../types";
+import { deploymentRegistry, getDeployment, isFinished, type DeploymentRecord } from "../utils/deployments";
+import { requireRegistry } from "../utils/responses";
+import { rollbackTo } from "../utils/rollback";
+
+type RollbackRequest = { deploymentId?: string };
+
+/** GET /apps/:name/deployments lists at most this many, newest first. */
+const HISTORY_LIMIT = 100;
+
+/**
+ * GET /apps/:name/deployments: the deployments of the Pages project or Worker script `name`,
+ * newest first (the latest HISTORY_LIMIT), with its generation, file hashes, URL and smoke result. `live` is the one
+ * serving now: the newest that reached `deployed` (a rollback counts).
+ */
+export async function appDeploymentsHandler(_request: Request, env: Env, name: string): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  const history = await appHistory(env, name);
+  if (!history.length) return respond({ error: `No deployments of ${name}` }, 404);
+
+  const live = liveDeployment(history);
+  return respond({
+    ok: true,
+    app: name,
+    live: live?.id ?? null,
+    deployments: history.map((record) => summary(record, live))
+  });
+}
+
+/**
+ * POST /apps/:name/rollback: `{ deploymentId }` (default: the deployment that was live before
+ * the current one) goes live again, recorded as a new deployment with `rollbackOf`. Answers 502
+ * with the failed record when Cloudflare refuses.
+ */
+export async function appRollbackHandler(request: Request, env: Env, name: string): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  const body = await request.json<RollbackRequest>().catch(() => ({}) as RollbackRequest);
+  if (body.deploymentId !== undefined && typeof body.deploymentId !== "string") {
+    return respond({ error: "deploymentId must be a string" }, 400);
+  }
+  const history = await appHistory(env, name);
+  if (!history.length) return respond({ error: `No deployments of ${name}` }, 404);
+
+  const live = liveDeployment(history);
+  let from: DeploymentRecord | undefined;
+  if (body.deploymentId) {
+    // It may be older than the listed history.
+    from = history.find((r) => r.id === body.deploymentId) ?? (await getDeployment(env, body.deploymentId)) ?? undefined;
+    if (from?.target !== name) return respond({ error: `${body.deploymentId} is not a deployment of ${name}` }, 404);
+  } else {
+    const earlier = history.filter((r) => r.stage === "deployed" && !r.removedAt);
+    from = earlier[earlier.indexOf(live!) + 1];
+    if (!from) return respond({ error: `No earlier deployment of ${name} to roll back to` }, 409);
+  }
+
+  if (from.removedAt) return respond({ error: `${name} was removed at ${from.removedAt}` }, 409);
+  if (from.stage !== "deployed") {
+    return respond({ error: `Deployment ${from.id} never went live (${from.stage})` }, 409);
+  }
+  if (from.id === live?.id) return respond({ error: `Deployment ${from.id} is already live` }, 409);
+  if (from.kind === "worker" && !from.worker) {
+    return respond({ error: `Deployment ${from.id} has no stored bundle to upload again` }, 409);
+  }
+
+  const deployment = await rollbackTo(env, from);
+  if (deployment.stage === "failed") return respond({ ok: false, error: deployment.error, deployment }, 502);
+  return respond({ ok: true, app: name, deployment: summary(deployment, deployment) });
+}
+
+/**
+ * The app's latest HISTORY_LIMIT records, newest first; Pages deployments still in progress are
+ * refreshed first.
+ */
+async function appHistory(env: Env, name: string): Promise<DeploymentRecord[]> {
+  const history = await deploymentRegistry(env)!.history(name, HISTORY_LIMIT);
+  return Promise.all(
+    history.map(async (record) => {
+      if (isFinished(record) || !record.pagesDeploymentId) return record;
+      return (await getDeployment(env, record.id).catch(() => null)) ?? record;
+    })
+  );
+}
+
+function liveDeployment(history: DeploymentRecord[]): DeploymentRecord | undefined {
+  return history.find((r) => r.stage === "deployed" && !r.removedAt);
+}
+
+/** A history entry: the record without its logs and stored-bundle details. */
+function summary(record: DeploymentRecord, live: DeploymentRecord | undefined) {
+  return {
+    id: record.id,
+    kind: record.kind,
+    stage: record.stage,
+    live: record.id === live?.id,
+    url: record.url,
+    generationId: record.generationId,
+    files: record.files,
+    smoke: record.smoke,
+    pagesDeploymentId: record.pagesDeploymentId,
+    rollbackOf: record.rollbackOf,
+    error: record.error,
+    kept: record.kept,
+    removedAt: record.removedAt,
+    createdAt: record.createdAt
+  };
+}
+
+function respond(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json" }
+  });
+}
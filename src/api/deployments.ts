@@ -0,0 +1,72 @@
+import type { Env } from "../types";
+import { getDeployment, isFinished, type DeploymentRecord } from "../utils/deployments";
+import { json as log } from "../utils/log";
+import { ndjson, requireRegistry } from "../utils/responses";
+
+/** How often the stream re-reads the record (and, for Pages, asks Cloudflare). */
+const STREAM_POLL_MS = 1_500;
+/** Streams end with a `timeout` event after this long; the client can reconnect or poll. */
+const STREAM_MAX_MS = 10 * 60_000;
+
+/**
+ * GET /deployments/:id: the deployment's current stage, every stage entered with its timestamp,
+ * the stage logs, and the URL once deployed. With ?stream=true it's followed as NDJSON instead:
+ * a `stage` event per stage entered and a `log` event per log line (starting from the first),
+ * then `done` with the full record once it's deployed or failed.
+ */
+export async function deploymentHandler(request: Request, env: Env, id: string): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  const deployment = await getDeployment(env, id);
+  if (!deployment) return respond({ error: `Deployment ${id} not found` }, 404);
+
+  if (new URL(request.url).searchParams.get("stream") !== "true") return respond({ ok: true, deployment });
+  return ndjson("deployment", async (emit) => {
+    const started = Date.now();
+    let stages = 0;
+    let logs = 0;
+    for (let current: DeploymentRecord | null = deployment; current; ) {
+      for (const { name, at } of current.stages.slice(stages)) await emit({ event: "stage", stage: name, at });
+      for (const line of current.logs.slice(logs)) await emit({ event: "log", ...line });
+      stages = current.stages.length;
+      logs = current.logs.length;
+
+      if (isFinished(current)) return emit({ event: "done", deployment: current });
+      if (Date.now() - started > STREAM_MAX_MS) {
+        const { stage } = current;
+        return emit({ event: "timeout", message: `Deployment is still ${stage}`, stage });
+      }
+      await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_MS));
+      current = await getDeployment(env, id);
+    }
+  });
+}
+
+/**
+ * POST /deployments/:id/keep: `{ keep }` (default true). A kept deployment's Pages project or
+ * Worker is never removed by the scheduled sandbox teardown; `keep: false` undoes it.
+ */
+export async function deploymentKeepHandler(request: Request, env: Env, id: string): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  const body = await request.json<{ keep?: boolean }>().catch(() => ({}) as { keep?: boolean });
+  if (body.keep !== undefined && typeof body.keep !== "boolean") {
+    return respond({ error: "keep must be a boolean" }, 400);
+  }
+
+  const existing = await registry.get(id);
+  if (!existing) return respond({ error: `Deployment ${id} not found` }, 404);
+  if (existing.removedAt) {
+    return respond({ error: `${existing.target} was already removed at ${existing.removedAt}` }, 409);
+  }
+  const deployment = (await registry.setKept(id, body.keep ?? true))!;
+  log("deployment keep", { id, target: deployment.target, kept: deployment.kept });
+  return respond({ ok: true, deployment });
+}
+
+function respond(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json" }
+  });
+}
@@ -0,0 +1,84 @@
+import type { Env } from "../types";
+import { attachDomain, DomainError, getDomainStatus, type DomainStatus } from "../utils/domains";
+import { ndjson, requireRegistry } from "../utils/responses";
+
+/** Certificates take minutes, so the stream checks less often than the deployment stream. */
+const STREAM_POLL_MS = 10_000;
+/** Streams end with a `timeout` event after this long; the client can reconnect or poll. */
+const STREAM_MAX_MS = 15 * 60_000;
+
+/**
+ * POST /apps/:name/domains: `{ hostname }` is attached to the app's Pages project or Worker
+ * (whichever `name` was last deployed as). The answer lists the DNS records the user has to
+ * create (`dnsRecords`); follow GET /apps/:name/domains/:hostname until `status` is `active`.
+ */
+export async function appDomainHandler(request: Request, env: Env, name: string): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  const body = await request.json<{ hostname?: string }>().catch(() => ({}) as { hostname?: string });
+  if (!body.hostname || typeof body.hostname !== "string") {
+    return respond({ error: "hostname is required" }, 400);
+  }
+
+  const [latest] = await registry.history(name, 1);
+  if (!latest) return respond({ error: `No deployments of ${name}` }, 404);
+  if (latest.removedAt) return respond({ error: `${name} was removed at ${latest.removedAt}` }, 409);
+
+  try {
+    const domain = await attachDomain(env, name, latest.kind, body.hostname);
+    return respond({ ok: true, domain });
+  } catch (err) {
+    if (err instanceof DomainError) return respond({ error: err.message }, err.status);
+    throw err;
+  }
+}
+
+/**
+ * GET /apps/:name/domains/:hostname: verification and certificate status, checked with
+ * Cloudflare, and the DNS records still expected. With ?stream=true it's polled as NDJSON: a
+ * `status` event whenever something changes, then `done` once the certificate is active (or
+ * the hostname failed), or `timeout` after 15 minutes.
+ */
+export async function appDomainStatusHandler(
+  request: Request,
+  env: Env,
+  name: string,
+  hostname: string
+): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  let domain: DomainStatus | null;
+  try {
+    domain = await getDomainStatus(env, name, hostname);
+  } catch (err) {
+    if (err instanceof DomainError) return respond({ error: err.message }, err.status);
+    throw err;
+  }
+  if (!domain) return respond({ error: `${hostname} is not attached to ${name}` }, 404);
+
+  if (new URL(request.url).searchParams.get("stream") !== "true") return respond({ ok: true, domain });
+  return ndjson("domain", async (emit) => {
+    const started = Date.now();
+    let last = "";
+    for (let current: DomainStatus | null = domain; current; ) {
+      const seen = JSON.stringify([current.status, current.certificate, current.errors]);
+      if (seen !== last) await emit({ event: "status", domain: current });
+      last = seen;
+
+      if (current.status !== "pending") return emit({ event: "done", domain: current });
+      if (Date.now() - started > STREAM_MAX_MS) {
+        return emit({ event: "timeout", message: `${hostname} is still pending (${current.certificate})` });
+      }
+      await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_MS));
+      current = await getDomainStatus(env, name, hostname);
+    }
+    await emit({ event: "error", message: `${hostname} is no longer attached to ${name}` });
+  });
+}
+
+function respond(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json" }
+  });
+}
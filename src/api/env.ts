@@ -0,0 +1,46 @@
+import type { Env } from "../types";
+import { describeAppEnv, emptyEnv, EnvError, updateAppEnv, type EnvUpdate } from "../utils/appEnv";
+import { requireRegistry } from "../utils/responses";
+
+/**
+ * GET /apps/:name/env: the app's variables and secrets for production and preview, each with its
+ * `origin` (`user`, or `ir` when the app's IR declares it). Secret values are never returned.
+ * `missing` lists, per environment, the IR's required variables that still need a value.
+ */
+export async function appEnvHandler(_request: Request, env: Env, name: string): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  const [appEnv, [latest]] = await Promise.all([registry.getEnv(name), registry.history(name, 1)]);
+  if (!appEnv && !latest) return respond({ error: `No deployments of ${name}` }, 404);
+  return respond({ ok: true, kind: latest?.kind, ...describeAppEnv(appEnv || emptyEnv(name)) });
+}
+
+/**
+ * PUT /apps/:name/env: `{ environment?, variables?, secrets? }` sets each name to its value, or
+ * deletes it when the value is `null`, in `environment` (both when omitted; Workers only have
+ * production). Values can be set before the app's first deploy, e.g. after one was refused for
+ * missing variables. A Pages project gets them right away; changes apply from the next deployment.
+ */
+export async function appEnvUpdateHandler(request: Request, env: Env, name: string): Promise<Response> {
+  const registry = requireRegistry(env);
+  if (registry instanceof Response) return registry;
+  const body = await request.json<EnvUpdate>().catch(() => null);
+  if (!body || typeof body !== "object") return respond({ error: "Body must be a JSON object" }, 400);
+
+  const [latest] = await registry.history(name, 1);
+  if (latest?.removedAt) return respond({ error: `${name} was removed at ${latest.removedAt}` }, 409);
+  try {
+    const appEnv = await updateAppEnv(env, name, latest?.kind, body);
+    return respond({ ok: true, kind: latest?.kind, ...describeAppEnv(appEnv) });
+  } catch (err) {
+    if (err instanceof EnvError) return respond({ error: err.message }, err.status);
+    throw err;
+  }
+}
+
+function respond(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json" }
+  });
+}
@@ -1,27 +1,73 @@
 import type { Env } from "../types";
-import { ensureRepo, pushFilesWithContentsAPI } from "../utils/github";
+import { publishFiles, type PublishMode } from "../utils/publish";
+import { validateRepoName, type CollisionPolicy } from "../utils/github";
 import { json } from "../utils/log";
 
+/**
+ * Push `files` to `repoName`. `mode: "overwrite"` commits to the default branch; `mode: "pr"`
+ * commits to `launchwing/<generationId>` and opens a pull request. Without a mode, existing
+ * repos get a pull request and new repos a direct commit. An existing repo is only written to
+ * when its `.launchwing.json` marker carries `ideaId`, unless `onCollision` says otherwise.
+ * `owner` targets any org or user that installed the GitHub App (default GITHUB_ORG).
+ */
 export async function githubExportHandler(req: Request, env: Env) {
-  const { repoName, private: isPrivate = true, files = {} } = await req.json<{
+  const {
+    repoName,
+    private: isPrivate = true,
+    files = {},
+    mode,
+    onCollision,
+    ideaId,
+    owner,
+    generationId = crypto.randomUUID().slice(0, 8)
+  } = await req.json<{
     repoName: string;
     private?: boolean;
     files: Record<string, string>;
+    mode?: PublishMode;
+    onCollision?: CollisionPolicy;
+    ideaId?: string;
+    owner?: string;
+    generationId?: string;
   }>();
 
   if (!repoName) return respond({ error: "repoName is required" }, 400);
+  const invalidName = validateRepoName(repoName);
+  if (invalidName) return respond({ error: invalidName }, 400);
+  if (onCollision !== undefined && !["suffix", "fail", "reuse-owned"].includes(onCollision)) {
+    return respond({ error: "onCollision must be 'suffix', 'fail' or 'reuse-owned'" }, 400);
+  }
+  if (mode !== undefined && mode !== "overwrite" && mode !== "pr") {
+    return respond({ error: "mode must be 'overwrite' or 'pr'" }, 400);
+  }
+  if (!/^[\w.-]+$/.test(generationId)) {
+    return respond({ error: "generationId may only contain letters, digits, '.', '_' and '-'" }, 400);
+  }
 
-  json("GitHub export request", { repoName, count: Object.keys(files).length });
+  json("GitHub export request", { repoName, mode, count: Object.keys(files).length });
 
-  await ensureRepo(env, repoName, isPrivate);
-  const repoUrl = await pushFilesWithContentsAPI(
-    env,
-    repoName,
-    files,
-    `Initial commit via LaunchWing Orchestrator`
-  );
+  const push = await publishFiles(env, repoName, files, {
+    message: `Update via LaunchWing Orchestrator (${generationId})`,
+    generationId,
+    ideaId,
+    owner,
+    mode,
+    onCollision,
+    isPrivate
+  });
 
-  return respond({ ok: true, repoUrl });
+  return respond({
+    ok: true,
+    owner: push.owner,
+    repoName: push.repo,
+    repoUrl: push.url,
+    mode: push.mode,
+    branch: push.branch,
+    commit: push.commit,
+    changes: push.changes,
+    secrets: push.secrets,
+    ...(push.pullRequest ? { pullRequest: push.pullRequest } : {})
+  });
 }
 
 function respond(data: unknown, status = 200) {
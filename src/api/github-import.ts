@@ -0,0 +1,80 @@
+import type { Env } from "../types";
+import { upgradeIR } from "@t/ir";
+import { githubTarget } from "../utils/githubAuth";
+import { readRepoFiles, validateRepoName, MARKER_PATH, type LaunchwingMarker } from "../utils/github";
+import { validateIR } from "../utils/schema";
+import { json } from "../utils/log";
+
+type ImportRequest = { repoName: string; owner?: string; ref?: string; maxFileBytes?: number };
+
+/**
+ * Read `repoName` at `ref` (default branch if unset) back into a `{ ir, files }` bundle like the
+ * one /mvp generates, so an app edited by hand on GitHub can be worked on again. Binary files
+ * and files over `maxFileBytes` are left out and listed in `skipped`. The IR comes from the
+ * `.launchwing.json` marker; repos without one (or with an invalid IR) return `ir: null`, and
+ * a marker IR whose version can't be upgraded answers 422.
+ */
+export async function githubImportHandler(req: Request, env: Env) {
+  const body = await req.json<ImportRequest>().catch(() => ({}) as ImportRequest);
+  const { repoName, owner, ref, maxFileBytes } = body;
+
+  if (!repoName) return respond({ error: "repoName is required" }, 400);
+  const invalidName = validateRepoName(repoName);
+  if (invalidName) return respond({ error: invalidName }, 400);
+  if (maxFileBytes !== undefined && !(Number.isInteger(maxFileBytes) && maxFileBytes > 0)) {
+    return respond({ error: "maxFileBytes must be a positive integer" }, 400);
+  }
+
+  const gh = await githubTarget(env, owner);
+  const snapshot = await readRepoFiles(gh, repoName, { ref, maxFileBytes });
+
+  const { [MARKER_PATH]: markerText, ...files } = snapshot.files;
+  const marker = parseMarker(markerText);
+  let ir = null;
+  let irError: string | undefined;
+  if (marker?.ir) {
+    let upgraded;
+    try {
+      upgraded = upgradeIR(marker.ir);
+    } catch (err: any) {
+      // A version no migration starts from (not an integer, or below 1): nothing to validate.
+      return respond({ error: `${MARKER_PATH} has an unreadable IR: ${String(err?.message || err)}` }, 422);
+    }
+    const checked = validateIR(upgraded);
+    if (checked.valid) ir = checked.ir;
+    else irError = `${MARKER_PATH} has an invalid IR: ${checked.error}`;
+  }
+
+  json("GitHub import", { repoName, ref: snapshot.ref, files: Object.keys(files).length, ir: !!ir });
+
+  return respond({
+    ok: true,
+    owner: gh.owner,
+    repoName,
+    ref: snapshot.ref,
+    commit: snapshot.commit,
+    ideaId: marker?.ideaId ?? null,
+    generationId: marker?.generationId ?? null,
+    ir,
+    ...(irError ? { irError } : {}),
+    files,
+    skipped: snapshot.skipped
+  });
+}
+
+function parseMarker(text: string | undefined): LaunchwingMarker | null {
+  if (!text) return null;
+  try {
+    const marker = JSON.parse(text);
+    return marker?.generator === "launchwing" ? (marker as LaunchwingMarker) : null;
+  } catch {
+    return null;
+  }
+}
+
+function respond(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "content-type": "application/json" }
+  });
+}
@@ -1,4 +1,5 @@
 import type { Env } from "../types";
+import { listPrompts } from "../prompts";
 
 export async function healthHandler(_req: Request, env: Env) {
   const body = {
@@ -7,10 +8,12 @@ export async function healthHandler(_req: Request, env: Env) {
     git: { ref: env.GIT_REF, sha: env.GIT_SHA },
     env: {
       openai: !!env.OPENAI_API_KEY,
-      github: !!env.GITHUB_TOKEN && !!env.GITHUB_ORG,
+      github: (!!env.GITHUB_TOKEN && !!env.GITHUB_ORG) || (!!env.GITHUB_APP_ID && !!env.GITHUB_APP_PRIVATE_KEY),
+      github_app: !!env.GITHUB_APP_ID && !!env.GITHUB_APP_PRIVATE_KEY,
       cloudflare: !!env.CLOUDFLARE_API_TOKEN && !!env.CLOUDFLARE_ACCOUNT_ID,
       orchestrator_url: env.ORCHESTRATOR_URL || null
-    }
+    },
+    prompts: listPrompts()
   };
   return json(body, 200);
 }
@@ -1,116 +1,224 @@
 import type { Env, MvpRequest, MvpResult } from "../types";
+import { IR_SCHEMA, upgradeIR } from "@t/ir";
 import { json as log } from "../utils/log";
 import { sanitizeGeneratedFiles } from "../utils/sanitizeGeneratedFiles";
-import { ensureRepo, pushFilesWithContentsAPI } from "../utils/github";
+import { publishFiles, type PublishResult } from "../utils/publish";
+import { githubErrorStatus } from "../utils/githubClient";
+import { ndjson, type Emit } from "../utils/responses";
+import { BudgetExceededError, completeJSON, getProvider, parseBudget, usageMeterFor, type Budget } from "../llm";
+import { parsePromptVersions, renderPrompt, type PromptVersions } from "../prompts";
+import { runGenerationStages, type RunOutput } from "../generation/runGenerationStages";
 
 /**
- * Generate IR + files directly via OpenAI (no external agent service).
- * We use the Responses API and coerce the model to return strict JSON.
+ * Generate IR + files and push them to GitHub.
+ * - pipeline=single (default): one model call that returns the whole bundle as strict JSON.
+ * - pipeline=staged: runGenerationStages (IR → manifest → per-file generation → repair → smoke).
+ * With ?stream=true, progress is streamed as NDJSON and the last line is the `done` event.
+ * Token usage and estimated cost come back as `usage`; an optional `budget` stops the run
+ * with a 402 (or a final `error` event carrying `usage`) once it is used up.
+ * `promptVersions` pins prompt versions; the ones used come back as `prompts`.
+ * A repo that already exists gets the regeneration on a `launchwing/<generationId>` branch with
+ * a pull request instead of a commit on its default branch (see publishFiles). A staged run whose
+ * smoke tests failed isn't pushed at all (`repoBlocked`).
  */
 export async function mvpHandler(request: Request, env: Env): Promise<Response> {
   const url = new URL(request.url);
   const stream = url.searchParams.get("stream") === "true";
 
-  const input = await request.json<MvpRequest>().catch(() => ({}));
+  const input = await request.json<MvpRequest>().catch(() => ({}) as MvpRequest);
+  const pipeline = url.searchParams.get("pipeline") || input.pipeline || "single";
+  if (pipeline !== "single" && pipeline !== "staged") {
+    return respond({ error: "pipeline must be 'single' or 'staged'" }, 400);
+  }
+  let budget: Budget | undefined;
+  let promptVersions: PromptVersions | undefined;
+  try {
+    budget = parseBudget(input.budget);
+    promptVersions = parsePromptVersions(input.promptVersions);
+  } catch (err: any) {
+    return respond({ error: String(err?.message || err) }, 400);
+  }
+  if (input.onCollision && !["suffix", "fail", "reuse-owned"].includes(input.onCollision)) {
+    return respond({ error: "onCollision must be 'suffix', 'fail' or 'reuse-owned'" }, 400);
+  }
   const idea = input.idea || "(no idea provided)";
   const tag = Math.random().toString(36).slice(2, 8);
 
+  if (pipeline === "staged") {
+    if (!input.idea?.trim()) return respond({ error: "idea is required" }, 400);
+    const run = (emit?: Emit) => runStaged(env, { ...input, budget, promptVersions }, tag, emit);
+    if (!stream) return overBudget(async () => respond({ ok: true, pipeline, result: await run() }));
+
+    return ndjson("mvp", async (emit) => {
+      await emit({ step: "start", message: "Starting staged MVP generation…" });
+      const result = await run(emit);
+      await emit({ step: "done", message: "Complete.", data: result });
+    }, streamError);
+  }
+
   if (stream) {
-    const { readable, writable } = new TransformStream();
-    const writer = writable.getWriter();
-    (async () => {
-      try {
-        await write(writer, { step: "start", message: "Starting MVP generation…" });
-
-        const agent = await callOpenAI(env, input, (msg) =>
-          write(writer, { step: "openai", message: msg })
-        );
-
-        await write(writer, { step: "sanitize", message: "Sanitizing files…" });
-        const appName = (agent.ir?.name || `app-${tag}`).replace(/[^\w-]/g, "-").toLowerCase();
-        const files = sanitizeGeneratedFiles(env, agent.files || {}, appName);
-
-        const repoName = appName;
-        await write(writer, { step: "repo", message: `Ensuring repo ${repoName}…` });
-        await ensureRepo(env, repoName, true);
-
-        await write(writer, {
-          step: "push",
-          message: `Pushing ${Object.keys(files).length} files…`
-        });
-        const repoUrl = await pushFilesWithContentsAPI(
-          env,
-          repoName,
-          files,
-          `Initial commit for ${appName} (idea: ${idea.slice(0, 80)})`
-        );
-
-        await write(writer, {
-          step: "done",
-          message: "Complete.",
-          data: { repoUrl, repoName, ir: agent.ir }
-        });
-        await writer.close();
-      } catch (err: any) {
-        await write(writer, { step: "error", message: String(err?.message || err) });
-        await writer.close();
-      }
-    })();
-
-    return new Response(readable, {
-      headers: {
-        "content-type": "application/x-ndjson; charset=utf-8",
-        "cache-control": "no-store"
-      }
-    });
+    return ndjson("mvp", async (emit) => {
+      await emit({ step: "start", message: "Starting MVP generation…" });
+
+      const agent = await generateSingleShot(env, { ...input, budget, promptVersions }, (msg) =>
+        emit({ step: "openai", message: msg })
+      );
+
+      await emit({ step: "sanitize", message: "Sanitizing files…" });
+      const appName = toAppName(agent.ir?.name, tag);
+      const files = sanitizeGeneratedFiles(env, agent.files, appName);
+
+      const repoName = appName;
+      await emit({ step: "push", message: `Pushing ${Object.keys(files).length} files to ${repoName}…` });
+      const push = await publishFiles(env, repoName, files, {
+        message: commitMessage(appName, idea),
+        generationId: tag,
+        ideaId: input.ideaId,
+        owner: input.owner,
+        onCollision: input.onCollision,
+        ir: agent.ir,
+        smoke: agent.smoke
+      });
+
+      await emit({
+        step: "done",
+        message: "Complete.",
+        data: {
+          ...pushSummary(push),
+          repoName: push.repo,
+          generationId: tag,
+          ir: agent.ir,
+          usage: agent.usage,
+          prompts: agent.prompts
+        }
+      });
+    }, streamError);
   }
 
   // Non-streaming path
-  const agent = await callOpenAI(env, input);
-  const appName = (agent.ir?.name || `app-${tag}`).replace(/[^\w-]/g, "-").toLowerCase();
-  const files = sanitizeGeneratedFiles(env, agent.files || {}, appName);
-  const repoName = appName;
+  return overBudget(async () => {
+    const agent = await generateSingleShot(env, { ...input, budget, promptVersions });
+    const appName = toAppName(agent.ir?.name, tag);
+    const files = sanitizeGeneratedFiles(env, agent.files, appName);
+    const repoName = appName;
 
-  await ensureRepo(env, repoName, true);
-  const repoUrl = await pushFilesWithContentsAPI(
+    const push = await publishFiles(env, repoName, files, {
+      message: commitMessage(appName, idea),
+      generationId: tag,
+      ideaId: input.ideaId,
+      owner: input.owner,
+      onCollision: input.onCollision,
+      ir: agent.ir,
+      smoke: agent.smoke
+    });
+
+    return respond({
+      ok: true,
+      ...pushSummary(push),
+      repoName: push.repo,
+      generationId: tag,
+      ir: agent.ir,
+      usage: agent.usage,
+      prompts: agent.prompts
+    });
+  });
+}
+
+async function runStaged(env: Env, input: MvpRequest, tag: string, emit?: Emit): Promise<RunOutput> {
+  const idea = input.idea || "";
+  const output = await runGenerationStages(
+    {
+      idea,
+      thread: input.thread,
+      deploy: input.deploy,
+      ideaId: input.ideaId,
+      generationId: tag,
+      budget: input.budget,
+      promptVersions: input.promptVersions
+    },
     env,
-    repoName,
-    files,
-    `Initial commit for ${appName} (idea: ${idea.slice(0, 80)})`
+    emit
   );
 
-  return respond({ ok: true, repoUrl, repoName, ir: agent.ir });
+  const repoName = toAppName(output.ir.name, tag);
+  // The pushed deploy workflow would ship the bundle from GitHub, past the smoke gate on deploys.
+  if (!output.smoke.passed && !output.smoke.skipped) {
+    log("push blocked by smoke", { repo: repoName });
+    output.repoBlocked = "smoke tests failed";
+    await emit?.({ step: "push", message: `Not pushing to ${repoName}: smoke tests failed` });
+    return output;
+  }
+  const files = sanitizeGeneratedFiles(env, output.artifacts, repoName);
+  await emit?.({ step: "push", message: `Pushing ${Object.keys(files).length} files to ${repoName}…` });
+  const push = await publishFiles(env, repoName, files, {
+    message: commitMessage(repoName, idea),
+    generationId: tag,
+    ideaId: input.ideaId,
+    owner: input.owner,
+    onCollision: input.onCollision,
+    ir: output.ir,
+    smoke: output.smoke
+  });
+  const { repoUrl, ...summary } = pushSummary(push);
+  output.repo = { name: push.repo, url: repoUrl, generationId: tag, ...summary };
+  return output;
+}
+
+/** The last NDJSON line when a run fails: its usage when over budget, GitHub's status when it refused. */
+function streamError(err: any) {
+  return {
+    step: "error",
+    message: String(err?.message || err),
+    ...(err instanceof BudgetExceededError ? { usage: err.usage } : {}),
+    ...(githubErrorStatus(err) ? { status: githubErrorStatus(err) } : {})
+  };
+}
+
+/** Turn a BudgetExceededError from `fn` into a 402 carrying the usage so far. */
+async function overBudget(fn: () => Promise<Response>): Promise<Response> {
+  try {
+    return await fn();
+  } catch (err) {
+    if (!(err instanceof BudgetExceededError)) throw err;
+    log("mvp budget exceeded", { error: err.message, usage: err.usage });
+    return respond({ ok: false, error: err.message, usage: err.usage }, 402);
+  }
 }
 
-async function callOpenAI(
+function commitMessage(appName: string, idea: string) {
+  return `Generate ${appName} (idea: ${idea.slice(0, 80)})`;
+}
+
+/** The parts of a publish result the /mvp responses report. */
+function pushSummary(push: PublishResult) {
+  return {
+    repoUrl: push.url,
+    owner: push.owner,
+    branch: push.branch,
+    commit: push.commit,
+    mode: push.mode,
+    secrets: push.secrets,
+    ...(push.pullRequest ? { pullRequest: push.pullRequest } : {})
+  };
+}
+
+function toAppName(name: string | undefined, tag: string) {
+  return (name || `app-${tag}`).replace(/[^\w-]/g, "-").toLowerCase();
+}
+
+async function generateSingleShot(
   env: Env,
   body: MvpRequest,
   onTick?: (msg: string) => void
 ): Promise<MvpResult> {
-  if (!env.OPENAI_API_KEY) throw new Error("Missing env: OPENAI_API_KEY");
-  const model = env.OPENAI_MODEL || "gpt-4o-mini";
-
-  const system = [
-    "You are LaunchWing's generation engine.",
-    "Return a SINGLE JSON object, no prose, no markdown.",
-    "Shape:",
-    "{",
-    '  "ir": {',
-    '    "name": string,',
-    '    "app_type": "spa_api" | "spa" | "api",',
-    '    "pages"?: string[],',
-    '    "api_routes"?: Array<{ method: string; path: string }>,',
-    '    "notes"?: string',
-    "  },",
-    '  "files": { "<path>": "<utf8 file contents>" }',
-    "}",
-    "Constraints:",
-    "- Keep the scaffold minimal and production-capable.",
-    "- Prefer a Vite SPA (index.html + basic entry) unless the idea clearly needs API routes.",
-    "- DO NOT include code fences or backticks.",
-    "- Avoid huge binaries; no images or node_modules.",
-    "- Paths must be POSIX style."
-  ].join("\n");
+  const meter = usageMeterFor(env, body.budget);
+  const llm = getProvider(env, meter.scope("generate"));
+
+  const { text: system, ref: prompt } = renderPrompt(
+    "mvp-bundle",
+    { schema: JSON.stringify(IR_SCHEMA) },
+    body.promptVersions?.["mvp-bundle"]
+  );
 
   const user = {
     idea: body.idea ?? "",
@@ -119,92 +227,26 @@ async function callOpenAI(
     thread: body.thread ?? []
   };
 
-  onTick?.("Calling OpenAI…");
-  const res = await fetch("https://api.openai.com/v1/responses", {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${env.OPENAI_API_KEY}`
-    },
-    body: JSON.stringify({
-      model,
-      temperature: 0.3,
-      top_p: 1,
-      input: [
-        { role: "system", content: system },
-        { role: "user", content: JSON.stringify(user) }
-      ]
-    })
+  onTick?.(`Calling ${llm.name} (${llm.model})…`);
+  const { json: parsed } = await completeJSON(llm, {
+    temperature: 0.3,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: JSON.stringify(user) }
+    ]
   });
+  onTick?.("Model responded.");
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    throw new Error(`OpenAI ${res.status}: ${text.slice(0, 400)}`);
+  // Without files there is nothing to push but the sanitizer's boilerplate.
+  if (!parsed?.files || typeof parsed.files !== "object") {
+    throw new Error("The model's response had no `files` object (not JSON, or cut off)");
   }
-  onTick?.("OpenAI responded.");
-
-  const j = await res.json();
-  const text = extractOutputText(j);
-  const parsed = safeParseJson(text);
-
-  const ir =
-    parsed?.ir ||
-    ({ name: (body.idea || "launchwing-app").slice(0, 24), app_type: "spa" } as MvpResult["ir"]);
-  const files = parsed?.files || {};
-  const smoke = { passed: true, logs: [] as string[] };
-
-  return { ir, files, smoke };
-}
-
-/** Try several shapes the Responses API may return; fall back to common fields. */
-function extractOutputText(j: any): string {
-  if (!j) return "";
-  // Newer format
-  if (typeof j.output_text === "string") return j.output_text;
-  // Older content list
-  if (Array.isArray(j.output)) {
-    const parts = j.output
-      .map((p: any) => {
-        if (typeof p.text === "string") return p.text;
-        if (Array.isArray(p.content)) {
-          return p.content.map((c: any) => c.text || "").join("");
-        }
-        return "";
-      })
-      .join("");
-    if (parts) return parts;
-  }
-  // Fallbacks
-  if (Array.isArray(j.content) && j.content[0]?.text) return j.content[0].text;
-  return typeof j === "string" ? j : JSON.stringify(j);
-}
-
-/** Strict JSON parse with fallback to first balanced {...} block. */
-function safeParseJson(raw: string): any | null {
-  const s = raw?.trim();
-  if (!s) return null;
-
-  try {
-    return JSON.parse(s);
-  } catch {
-    // Attempt to slice the first balanced JSON object
-    const start = s.indexOf("{");
-    const end = s.lastIndexOf("}");
-    if (start >= 0 && end > start) {
-      const slice = s.slice(start, end + 1);
-      try {
-        return JSON.parse(slice);
-      } catch {
-        // no-op
-      }
-    }
-  }
-  return null;
-}
+  const ir = upgradeIR(parsed.ir || { name: (body.idea || "launchwing-app").slice(0, 24), app_type: "spa" });
+  const files = parsed.files;
+  // This pipeline doesn't run stage5; the PR body says so rather than claiming a pass.
+  const smoke = { passed: false, skipped: true, logs: ["smoke not run: single pipeline"] };
 
-async function write(writer: WritableStreamDefaultWriter, obj: unknown) {
-  const line = JSON.stringify(obj) + "\n";
-  await writer.write(new TextEncoder().encode(line));
+  return { ir, files, smoke, usage: meter.report(), prompts: [prompt] };
 }
 
 function respond(data: unknown, status = 200) {
@@ -1,23 +1,163 @@
 import type { Env } from "../types";
-import { ensurePagesProject, getPagesProject } from "../utils/cloudflare";
+import { upgradeIR, type IR } from "@t/ir";
+import { EnvError, pagesEnvVars, requireAppEnv, type AppEnv } from "../utils/appEnv";
+import {
+  deployPagesBundle,
+  ensurePagesProject,
+  getPagesProject,
+  setPagesBindings,
+  setPagesEnvVars
+} from "../utils/cloudflare";
+import { deploymentRegistry, startDeployment } from "../utils/deployments";
+import { pagesBindings, provisionBindings } from "../utils/provision";
+import { validateIR } from "../utils/schema";
 import { json as log } from "../utils/log";
 
-export async function sandboxDeployHandler(req: Request, env: Env) {
-  const { projectName } = await req.json<{ projectName: string }>();
-  if (!projectName) return respond({ error: "projectName is required" }, 400);
+type SandboxDeployRequest = {
+  /** Idea id; names the project (launchwing-<id>) unless projectName is given. */
+  id?: string;
+  projectName?: string;
+  files?: Record<string, string>;
+  /** The bundle's IR; its D1 and KV bindings are provisioned and bound, its `env` is required. */
+  ir?: unknown;
+  /** Must be true: the UI asks the user before deploying. */
+  confirm?: boolean;
+  branch?: string;
+  /** Answer 202 with the deployment id right away and deploy in the background. */
+  async?: boolean;
+  /** Recorded in the project's deployment history (GET /apps/:name/deployments). */
+  generationId?: string;
+  smoke?: { passed?: boolean; skipped?: boolean };
+};
 
-  log("sandbox-deploy ensure project", { projectName });
-  const project = (await getPagesProject(env, projectName)) || (await ensurePagesProject(env, projectName));
+/**
+ * Deploy a generated bundle to Cloudflare Pages with Direct Upload: create (or reuse) the
+ * project, upload the assets plus `_worker.js` in Advanced Mode, and return the deployment's
+ * own URL. D1 databases and KV namespaces declared in `ir.bindings` are created (migrations
+ * applied) and bound to the project first, and the variables set with PUT /apps/:name/env are set
+ * on it; a deploy missing one that the IR requires is refused with 400 and `missing`.
+ * `deploymentId` is the id to follow at GET /deployments/:id; `logs` lists what
+ * happened, for the deploy transcript in the UI. With `async: true` the answer comes as soon as
+ * the deployment is recorded, and its progress is only available from /deployments/:id.
+ * `urls.custom` lists the custom domains attached to the project (POST /apps/:name/domains).
+ */
+export async function sandboxDeployHandler(req: Request, env: Env, ctx?: ExecutionContext) {
+  const body = await req.json<SandboxDeployRequest>().catch(() => ({}) as SandboxDeployRequest);
+  const { files, confirm, branch } = body;
 
-  // NOTE: actual deployments happen via the generated repo's GitHub Action
-  const result = {
-    ok: true,
-    projectName,
-    urls: {
-      dashboard: `https://dash.cloudflare.com/?to=/:account/pages/view/${projectName}`
+  const projectName = pagesProjectName(body.projectName || (body.id ? `launchwing-${body.id}` : ""));
+  if (!projectName) return respond({ ok: false, error: "id or projectName is required" }, 400);
+  if (!files || typeof files !== "object" || !Object.keys(files).length) {
+    return respond({ ok: false, error: "files is required" }, 400);
+  }
+  if (confirm !== true) return respond({ ok: false, error: "confirm: true is required to deploy" }, 400);
+  let ir: IR | undefined;
+  if (body.ir !== undefined) {
+    const checked = validateIR(upgradeIR(body.ir));
+    if (!checked.valid) return respond({ ok: false, error: `invalid ir: ${checked.error}` }, 400);
+    ir = checked.ir;
+  }
+  if (body.async && !env.DEPLOYMENTS) {
+    return respond({ ok: false, error: "async deploys need deployment tracking (DEPLOYMENTS binding)" }, 400);
+  }
+
+  let appEnv: AppEnv;
+  try {
+    appEnv = await requireAppEnv(env, projectName, ir, branch && branch !== "main" ? "preview" : "production");
+  } catch (err) {
+    if (!(err instanceof EnvError)) throw err;
+    return respond({ ok: false, error: err.message, missing: err.missing }, err.status);
+  }
+
+  log("sandbox-deploy", { projectName, files: Object.keys(files).length });
+  const { generationId, smoke } = body;
+  const tracker = await startDeployment(env, "pages", projectName, {
+    generationId: typeof generationId === "string" ? generationId : undefined,
+    smoke:
+      smoke && typeof smoke.passed === "boolean"
+        ? { passed: smoke.passed, ...(smoke.skipped ? { skipped: true } : {}) }
+        : undefined
+  });
+  const run = async () => {
+    try {
+      const existing = await getPagesProject(env, projectName);
+      const vars = await pagesEnvVars(env, appEnv);
+      if (!existing) {
+        await ensurePagesProject(env, projectName, vars);
+        await tracker.created();
+      }
+      await tracker.log(existing ? `Using Pages project ${projectName}` : `Created Pages project ${projectName}`);
+      if (existing && appEnv.entries.length) await setPagesEnvVars(env, projectName, vars);
+      if (appEnv.entries.length) await tracker.log(`Set ${appEnv.entries.length} environment variables`);
+
+      const provisioned = await provisionBindings(env, projectName, ir, files, tracker.log);
+      await tracker.resources(provisioned);
+      if (provisioned.d1.length || provisioned.kv.length) {
+        await setPagesBindings(env, projectName, pagesBindings(provisioned));
+        const names = [...provisioned.d1, ...provisioned.kv].map((r) => r.binding);
+        await tracker.log(`Bound ${names.join(", ")} to ${projectName}`);
+      }
+
+      await tracker.bundle(files);
+      await tracker.stage("uploading", `Uploading ${Object.keys(files).length} files`);
+      const deployment = await deployPagesBundle(env, projectName, files, {
+        branch,
+        commitMessage: `LaunchWing sandbox deploy${body.id ? ` (idea ${body.id})` : ""}`
+      });
+      const unchanged = deployment.assets - deployment.uploaded;
+      await tracker.log(
+        `Uploaded ${deployment.uploaded} of ${deployment.assets} assets` + (unchanged ? ` (${unchanged} unchanged)` : "")
+      );
+      if (deployment.worker) await tracker.log("Deployed _worker.js (Advanced Mode)");
+      if (deployment.skipped.length) {
+        await tracker.log(`Skipped (needs a build or not deployable): ${deployment.skipped.join(", ")}`);
+      }
+      await tracker.pagesDeployment(deployment.id, deployment.url);
+      return deployment;
+    } catch (err) {
+      await tracker.failed(err);
+      throw err;
     }
   };
-  return respond(result);
+
+  // Custom domains attached with POST /apps/:name/domains serve every new deployment too.
+  const domains = await deploymentRegistry(env)?.domains(projectName).catch(() => []);
+  const urls = {
+    project: `https://${projectName}.pages.dev`,
+    dashboard: `https://dash.cloudflare.com/?to=/:account/pages/view/${projectName}`,
+    ...(domains?.length ? { custom: domains.map((d) => `https://${d.hostname}`) } : {})
+  };
+  if (body.async) {
+    const background = run().catch(() => {});
+    if (ctx) ctx.waitUntil(background);
+    else await background;
+    const stage = tracker.record().stage;
+    return respond({ ok: true, projectName, deploymentId: tracker.id, stage, urls }, 202);
+  }
+
+  const deployment = await run();
+  const record = tracker.record();
+  return respond({
+    ok: true,
+    projectName,
+    deploymentId: tracker.id,
+    pagesDeploymentId: deployment.id,
+    url: deployment.url,
+    environment: deployment.environment,
+    stage: record.stage,
+    logs: record.logs.map((l) => l.message),
+    urls: { deployment: deployment.url, ...urls }
+  });
+}
+
+/** Pages project names: lowercase letters, digits and dashes, at most 58 characters. */
+function pagesProjectName(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, "-")
+    .replace(/-+/g, "-")
+    .slice(0, 58)
+    .replace(/^-|-$/g, "");
 }
 
 function respond(data: unknown, status = 200) {
@@ -25,4 +165,4 @@ function respond(data: unknown, status = 200) {
     status,
     headers: { "content-type": "application/json" }
   });
-}
\ No newline at end of file
+}
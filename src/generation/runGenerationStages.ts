@@ -1,31 +1,177 @@
-import type { Env } from "../index";
+import type { ChatMsg, Env } from "../types";
 import type { IR } from "@t/ir";
 import type { FileManifest } from "@t/manifest";
 import { ideaToIR } from "./stage1-ideaToIR";
 import { irToManifest } from "./stage2-IRtoManifest";
-import { generateFiles } from "./stage3-generateFiles";
-import { repairIfNeeded } from "./stage4-repair";
-import { runSmoke } from "./stage5-smoke";
-// import { deploy } from "./stage6-deploy"; // not auto-deploying yet
+import { generateFiles, type FileProvenance } from "./stage3-generateFiles";
+import { repairIfNeeded, type RepairReport } from "./stage4-repair";
+import { runSmoke, type SmokeResult } from "./stage5-smoke";
+import { deploy } from "./stage6-deploy";
+import { getProvider, meteredProvider, usageMeterFor, type Budget, type UsageReport } from "../llm";
+import { promptRef, type PromptRef, type PromptVersions } from "../prompts";
+import { EnvError } from "../utils/appEnv";
+import { json as log } from "../utils/log";
 
-export interface RunInput { idea: string }
+export interface RunInput {
+  idea: string;
+  thread?: ChatMsg[];
+  /** Deploy a sandbox Worker once smoke tests pass. */
+  deploy?: boolean;
+  /** Recorded with the deployment; the idea id also keeps one Worker script per idea. */
+  ideaId?: string;
+  generationId?: string;
+  /** Model usage limit for the whole run; exceeding it throws BudgetExceededError. */
+  budget?: Budget;
+  /** Pin prompt versions for this run; unpinned prompts use the latest. */
+  promptVersions?: PromptVersions;
+}
 export interface RunOutput {
   ir: IR;
   manifest: FileManifest;
   artifacts: Record<string, string>;
-  smoke: { passed: boolean; logs: string[] };
-  deployment?: { mode: "sandbox" | "github"; url?: string; repoUrl?: string };
+  provenance: Record<string, FileProvenance>;
+  repair: RepairReport;
+  smoke: SmokeResult;
+  /** Tokens and estimated cost of every model call, in total and per stage. */
+  usage: UsageReport;
+  /** Exact prompt versions the model calls used. */
+  prompts: PromptRef[];
+  /** What the run went ahead without, e.g. smoke tests skipped because LOADER isn't bound. */
+  warnings: string[];
+  deployment?: {
+    mode: "sandbox" | "github";
+    url?: string;
+    repoUrl?: string;
+    blocked?: string;
+    /** Follow at GET /deployments/:id */
+    deploymentId?: string;
+  };
+  /** Set by /mvp once the artifacts are pushed to GitHub. */
+  repo?: {
+    name: string;
+    url: string;
+    owner: string;
+    generationId: string;
+    branch: string;
+    commit: string;
+    mode: "overwrite" | "pr";
+    /** Actions secrets provisioned for the deploy workflow */
+    secrets: string[];
+    pullRequest?: { number: number; url: string };
+  };
+  /** Set by /mvp instead of `repo` when it didn't push, e.g. "smoke tests failed". */
+  repoBlocked?: string;
 }
 
-export async function runGenerationStages(input: RunInput, env: Env): Promise<RunOutput> {
-  const ir = await ideaToIR(input.idea, env);
-  const manifest = await irToManifest(ir, env);
+export type StageName = "ir" | "manifest" | "files" | "repair" | "smoke" | "deploy";
+
+/** Progress events, one pair per stage; /mvp streams them as NDJSON. */
+export type StageEvent =
+  | { step: StageName; status: "start"; message: string; at: string }
+  | { step: StageName; status: "done"; message: string; at: string; ms: number; data: unknown; warning?: string };
+
+export type StageListener = (event: StageEvent) => void | Promise<void>;
 
-  let artifacts = await generateFiles(ir, manifest, env);
-  const repaired = await repairIfNeeded(artifacts, env);
-  if (repaired) artifacts = repaired;
+export async function runGenerationStages(
+  input: RunInput,
+  env: Env,
+  onEvent?: StageListener
+): Promise<RunOutput> {
+  const meter = usageMeterFor(env, input.budget);
+  // One provider for the whole run, so a stateful one (fake) sees every call of it in order.
+  const provider = getProvider(env);
+  const llm = (scope: string) => meteredProvider(provider, meter.scope(scope));
+  const pins = input.promptVersions || {};
+  const warnings: string[] = [];
+  const stage = async <T>(
+    step: StageName,
+    message: string,
+    fn: () => Promise<T>,
+    data: (r: T) => unknown,
+    warn: (r: T) => string | undefined = () => undefined
+  ) => {
+    const started = Date.now();
+    await onEvent?.({ step, status: "start", message, at: new Date(started).toISOString() });
+    const result = await fn();
+    const ms = Date.now() - started;
+    const warning = warn(result);
+    if (warning) warnings.push(warning);
+    const at = new Date().toISOString();
+    await onEvent?.({ step, status: "done", message, at, ms, data: data(result), ...(warning ? { warning } : {}) });
+    return result;
+  };
 
-  const smoke = await runSmoke(artifacts, env);
+  const ir = await stage(
+    "ir",
+    "Planning app (IR)…",
+    () => ideaToIR(input.idea, env, input.thread, { llm: llm("ir"), promptVersion: pins["idea-to-ir"] }),
+    (ir) => ({ ir })
+  );
+  const manifest = await stage(
+    "manifest",
+    "Planning files…",
+    () => irToManifest(ir, env),
+    (manifest) => ({ manifest })
+  );
+  const generated = await stage(
+    "files",
+    `Generating ${manifest.files.length} files…`,
+    () => generateFiles(ir, manifest, env, { llm: llm("files"), promptVersion: pins["slot-file"] }),
+    (g) => ({ count: Object.keys(g.files).length, provenance: g.provenance })
+  );
+  const { files: artifacts, report: repair } = await stage(
+    "repair",
+    "Checking and repairing files…",
+    () => repairIfNeeded(generated.files, env, { llm: llm("repair"), promptVersion: pins.repair }),
+    (r) => ({ repair: r.report })
+  );
+  const smoke = await stage(
+    "smoke",
+    "Running smoke tests…",
+    () => runSmoke(artifacts, env, ir),
+    (smoke) => ({ smoke }),
+    (smoke) => (smoke.skipped ? `Untested bundle: ${smoke.logs.join("; ")}` : undefined)
+  );
 
-  return { ir, manifest, artifacts, smoke };
-}
\ No newline at end of file
+  const out: RunOutput = {
+    ir,
+    manifest,
+    artifacts,
+    provenance: generated.provenance,
+    repair,
+    smoke,
+    usage: meter.report(),
+    prompts: [
+      promptRef("idea-to-ir", pins["idea-to-ir"]),
+      promptRef("slot-file", pins["slot-file"]),
+      ...(repair.prompt ? [repair.prompt] : [])
+    ],
+    warnings
+  };
+
+  if (input.deploy) {
+    out.deployment = await stage(
+      "deploy",
+      "Deploying sandbox…",
+      async (): Promise<RunOutput["deployment"]> => {
+        // A skipped smoke run (no sandbox) doesn't block; a failed one always does.
+        if (!smoke.passed && !smoke.skipped) {
+          log("deploy blocked by smoke", { name: ir.name });
+          return { mode: "sandbox", blocked: "smoke tests failed" };
+        }
+        const { ideaId, generationId } = input;
+        try {
+          const result = await deploy(artifacts, env, ir, { ideaId, generationId, smoke });
+          return { mode: "sandbox", url: result.url, deploymentId: result.deploymentId };
+        } catch (err) {
+          // Required variables (IR `env`) are set with PUT /apps/:name/env, then deployed again.
+          if (!(err instanceof EnvError)) throw err;
+          log("deploy blocked by env", { name: ir.name, missing: err.missing });
+          return { mode: "sandbox", blocked: err.message };
+        }
+      },
+      (deployment) => ({ deployment })
+    );
+  }
+  return out;
+}
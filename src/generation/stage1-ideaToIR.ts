@@ -1,17 +1,58 @@
-import type { Env } from "../index";
-import type { IR } from "@t/ir";
+import type { ChatMsg, Env } from "../types";
+import { IR_SCHEMA, upgradeIR, type IR } from "@t/ir";
+import { formatSchemaErrors, validateIR, type SchemaError } from "../utils/schema";
+import { completeJSON, getProvider, type LlmProvider } from "../llm";
+import { renderPrompt } from "../prompts";
+import { json as log } from "../utils/log";
 
-// TODO: Add prompt + JSON Schema validation
-export async function ideaToIR(idea: string, _env: Env): Promise<IR> {
-  const name = (idea || "Generated App").slice(0, 40);
-  return {
-    app_type: "spa_api",
-    name,
-    features: ["forms"],
-    api_routes: [
-      { path: "/api/health", method: "GET" },
-      { path: "/api/echo", method: "POST" }
-    ],
-    pages: ["/"]
-  };
-}
\ No newline at end of file
+/** Total model calls per idea, including the first one. */
+const MAX_IR_ATTEMPTS = 3;
+
+/**
+ * Ask the model for an IR and validate it against IR_SCHEMA.
+ * On failure the model sees its previous answer plus the structured error list and retries.
+ */
+export async function ideaToIR(
+  idea: string,
+  env: Env,
+  thread: ChatMsg[] = [],
+  opts: { llm?: LlmProvider; promptVersion?: string } = {}
+): Promise<IR> {
+  const llm = opts.llm || getProvider(env);
+  const { text: system } = renderPrompt(
+    "idea-to-ir",
+    { schema: JSON.stringify(IR_SCHEMA, null, 2) },
+    opts.promptVersion
+  );
+
+  const input: ChatMsg[] = [{ role: "system", content: system }];
+  for (const m of thread) {
+    input.push({ role: m.role === "assistant" ? "assistant" : "user", content: String(m.content || "") });
+  }
+  input.push({ role: "user", content: `App idea:\n${idea}\n\nReturn the IR JSON object only.` });
+
+  let errors: SchemaError[] = [];
+  for (let attempt = 1; attempt <= MAX_IR_ATTEMPTS; attempt++) {
+    const { json, text } = await completeJSON(llm, {
+      messages: input,
+      json: { name: "ir", schema: IR_SCHEMA }
+    });
+
+    const result = json
+      ? validateIR(upgradeIR(json))
+      : { valid: false as const, errors: [{ path: "$", message: "response was not valid JSON" }] };
+    if (result.valid) return result.ir;
+
+    errors = result.errors;
+    log("ideaToIR invalid", { attempt, errors });
+    input.push(
+      { role: "assistant", content: text },
+      {
+        role: "user",
+        content: `The IR failed validation:\n${JSON.stringify({ errors }, null, 2)}\n\nReturn the corrected IR JSON object only.`
+      }
+    );
+  }
+
+  throw new Error(`ideaToIR: no valid IR after ${MAX_IR_ATTEMPTS} attempts: ${formatSchemaErrors(errors)}`);
+}
@@ -1,15 +1,166 @@
-import type { Env } from "../index";
+import type { Env } from "../types";
 import type { IR } from "@t/ir";
-import type { FileManifest } from "@t/manifest";
-
-export async function irToManifest(_ir: IR, _env: Env): Promise<FileManifest> {
-  return {
-    files: [
-      "app/src/pages/index.tsx",
-      "worker/src/routes/health.ts",
-      "worker/src/routes/echo.ts",
-      "README.md",
-      "wrangler.toml"
-    ]
-  };
-}
\ No newline at end of file
+import type { FileManifest, ManifestEntry } from "@t/manifest";
+
+// Generated apps are buildless Pages projects (Advanced Mode): static HTML/CSS/JS at the
+// root, `_worker.js` as the API entry, and server-only modules under `worker/`.
+const CLIENT_LIB = "app.js";
+const STYLES = "styles.css";
+const HTTP_LIB = "worker/lib/http.js";
+const STORE_LIB = "worker/lib/store.js";
+const WORKER = "_worker.js";
+
+/**
+ * Plan every file the app needs from the IR alone (no model call), so the same IR
+ * always yields the same manifest.
+ */
+export async function irToManifest(ir: IR, _env: Env): Promise<FileManifest> {
+  const files: ManifestEntry[] = [];
+  const d1 = ir.bindings?.D1 || [];
+  const kv = ir.bindings?.KV || [];
+  const hasApi = ir.api_routes.length > 0;
+  const hasStore = d1.length > 0 || kv.length > 0;
+
+  files.push({
+    path: "wrangler.toml",
+    role: "config",
+    purpose: `Pages project config for ${ir.app_type} app; declares ${describeBindings(ir)}`,
+    dependsOn: []
+  });
+
+  const migrations = d1.map((b) => `migrations/${b.name.toLowerCase()}/0001_init.sql`);
+  d1.forEach((b, i) =>
+    files.push({
+      path: migrations[i],
+      role: "migration",
+      purpose: `Initial schema for D1 binding ${b.name}`,
+      dependsOn: []
+    })
+  );
+
+  files.push({ path: STYLES, role: "asset", purpose: "Shared styles for every page", dependsOn: [] });
+
+  const clientLib = hasApi && ir.app_type !== "webhook";
+  if (clientLib) {
+    files.push({
+      path: CLIENT_LIB,
+      role: "lib",
+      purpose: "Browser helpers shared by pages: fetch wrapper for the API routes and rendering utilities",
+      dependsOn: []
+    });
+  }
+
+  for (const page of ir.pages) {
+    files.push({
+      path: pageFile(page),
+      role: "page",
+      page,
+      purpose: `HTML page served at ${page}`,
+      dependsOn: clientLib ? [STYLES, CLIENT_LIB] : [STYLES]
+    });
+  }
+
+  if (hasApi) {
+    files.push({
+      path: HTTP_LIB,
+      role: "lib",
+      purpose: "JSON response, error and request-body helpers shared by route modules",
+      dependsOn: []
+    });
+    if (hasStore) {
+      files.push({
+        path: STORE_LIB,
+        role: "lib",
+        purpose: `Typed access to ${describeBindings(ir)} for route modules`,
+        dependsOn: ["wrangler.toml", ...migrations]
+      });
+    }
+
+    const routeFiles: string[] = [];
+    for (const route of ir.api_routes) {
+      const path = routeFile(route.path, route.method);
+      routeFiles.push(path);
+      files.push({
+        path,
+        role: "route",
+        route: { path: route.path, method: route.method },
+        purpose: `Handles ${route.method} ${route.path}`,
+        dependsOn: hasStore ? [HTTP_LIB, STORE_LIB] : [HTTP_LIB]
+      });
+    }
+
+    files.push({
+      path: WORKER,
+      role: "worker",
+      purpose: "Advanced Mode entry: dispatches /api/* to route modules, everything else to ASSETS",
+      dependsOn: [HTTP_LIB, ...routeFiles]
+    });
+  }
+
+  files.push({
+    path: "README.md",
+    role: "doc",
+    purpose: "What the app does, its pages and API routes, and how to run it locally",
+    dependsOn: []
+  });
+
+  return { files };
+}
+
+/**
+ * Group manifest entries into dependency levels: every entry only depends on entries in
+ * earlier levels, so each level can be generated concurrently.
+ */
+export function generationOrder(manifest: FileManifest): ManifestEntry[][] {
+  const byPath = new Map(manifest.files.map((f) => [f.path, f]));
+  for (const f of manifest.files) {
+    for (const dep of f.dependsOn) {
+      if (!byPath.has(dep)) throw new Error(`Manifest: ${f.path} depends on unknown file ${dep}`);
+    }
+  }
+
+  const levels: ManifestEntry[][] = [];
+  const done = new Set<string>();
+  let pending = manifest.files;
+  while (pending.length) {
+    const ready = pending.filter((f) => f.dependsOn.every((d) => done.has(d)));
+    if (!ready.length) {
+      throw new Error(`Manifest: dependency cycle among ${pending.map((f) => f.path).join(", ")}`);
+    }
+    levels.push(ready);
+    ready.forEach((f) => done.add(f.path));
+    pending = pending.filter((f) => !done.has(f.path));
+  }
+  return levels;
+}
+
+/** "/" -> index.html, "/settings/profile" -> settings/profile/index.html */
+export function pageFile(page: string): string {
+  const trimmed = page.replace(/^\/+|\/+$/g, "");
+  return trimmed ? `${trimmed}/index.html` : "index.html";
+}
+
+/**
+ * "/api/todos/:id" + GET -> worker/routes/todos.[id].get.js. Segments are joined with dots,
+ * and params are bracketed, so distinct routes get distinct files; validateIR refuses the few
+ * that still collide once other characters (dots included) become `_`.
+ */
+export function routeFile(path: string, method: string): string {
+  const safe = (name: string) => name.replace(/[^A-Za-z0-9_-]/g, "_");
+  const slug =
+    path
+      .replace(/^\/api\/?/, "")
+      .split("/")
+      .filter(Boolean)
+      .map((seg) => (seg.startsWith(":") ? `[${safe(seg.slice(1))}]` : safe(seg)))
+      .join(".") || "index";
+  return `worker/routes/${slug}.${method.toLowerCase()}.js`;
+}
+
+function describeBindings(ir: IR): string {
+  const names = [
+    ...(ir.bindings?.D1 || []).map((b) => `D1 ${b.name}`),
+    ...(ir.bindings?.KV || []).map((b) => `KV ${b.name}`)
+  ];
+  return names.length ? names.join(", ") : "no bindings";
+}
@@ -1,38 +1,110 @@
-import type { Env } from "../index";
+import type { ChatMsg, Env } from "../types";
 import type { IR } from "@t/ir";
-import type { FileManifest } from "@t/manifest";
-
-export async function generateFiles(_ir: IR, manifest: FileManifest, _env: Env): Promise<Record<string, string>> {
-  const files: Record<string, string> = {};
-  for (const p of manifest.files) {
-    if (p === "app/src/pages/index.tsx") {
-      files[p] = [
-        'import { useState } from "react";',
-        "export default function Home(){",
-        ' const [msg,setMsg]=useState("hello");',
-        " async function send(){ await fetch('/api/echo',{method:'POST',headers:{'content-type':'application/json'},body:JSON.stringify({message:msg})}); }",
-        ' return (<main><h1>LaunchWing App</h1><input value={msg} onChange={e=>setMsg(e.target.value)} /><button onClick={send}>Echo</button></main>);',
-        "}"
-      ].join("\n");
-    } else if (p === "worker/src/routes/health.ts") {
-      files[p] = 'export const onRequest: PagesFunction = async () => new Response(JSON.stringify({ok:true}),{headers:{\"content-type\":\"application/json\"}});';
-    } else if (p === "worker/src/routes/echo.ts") {
-      files[p] = 'export const onRequestPost: PagesFunction = async ({request}) => { try{ const b=await request.json(); return new Response(JSON.stringify({ok:true,data:b}),{headers:{\"content-type\":\"application/json\"}});}catch{ return new Response(JSON.stringify({ok:false,error:\"Invalid JSON\"}),{status:400,headers:{\"content-type\":\"application/json\"}});} };';
-    } else if (p === "README.md") {
-      files[p] = "# Generated by LaunchWing\n\nThis app was generated from an IR.";
-    } else if (p === "wrangler.toml") {
-      files[p] = [
-        'name = "generated-app"',
-        'main = "worker/src/index.ts"',
-        'compatibility_date = "2025-08-10"',
-        "",
-        "[assets]",
-        'directory = "public"',
-        'binding = "ASSETS"'
-      ].join("\n");
-    } else {
-      files[p] = "// TODO: generated";
+import type { FileManifest, ManifestEntry } from "@t/manifest";
+import { generationOrder } from "./stage2-IRtoManifest";
+import { BudgetExceededError, completeJSON, getProvider, type LlmProvider } from "../llm";
+import { mapLimit } from "../utils/async";
+import { renderPrompt, type PromptRef } from "../prompts";
+import { json as log } from "../utils/log";
+
+/** Parallel model calls within one dependency level. */
+const SLOT_CONCURRENCY = 4;
+/** Attempts per file, including the first one. */
+const MAX_SLOT_ATTEMPTS = 3;
+/** Dependencies larger than this are summarised instead of inlined. */
+const MAX_DEP_CHARS = 4_000;
+
+export type FileProvenance = { model: string; prompt: PromptRef; attempts: number };
+
+export type GeneratedFiles = {
+  files: Record<string, string>;
+  provenance: Record<string, FileProvenance>;
+};
+
+/**
+ * Generate one file per manifest entry with its own model call. Entries are processed
+ * level by level (see generationOrder) so each call can see its dependencies' signatures.
+ */
+export async function generateFiles(
+  ir: IR,
+  manifest: FileManifest,
+  env: Env,
+  opts: { llm?: LlmProvider; promptVersion?: string } = {}
+): Promise<GeneratedFiles> {
+  const llm = opts.llm || getProvider(env);
+  const out: GeneratedFiles = { files: {}, provenance: {} };
+  const manifestList = manifest.files.map((f) => `- ${f.path} (${f.role}): ${f.purpose}`).join("\n");
+
+  for (const level of generationOrder(manifest)) {
+    await mapLimit(level, SLOT_CONCURRENCY, async (entry) => {
+      const { content, provenance } = await generateSlot(ir, entry, manifestList, out.files, llm, opts.promptVersion);
+      out.files[entry.path] = content;
+      out.provenance[entry.path] = provenance;
+    });
+  }
+  return out;
+}
+
+async function generateSlot(
+  ir: IR,
+  entry: ManifestEntry,
+  manifestList: string,
+  done: Record<string, string>,
+  llm: LlmProvider,
+  promptVersion: string | undefined
+): Promise<{ content: string; provenance: FileProvenance }> {
+  const { text: system, ref: prompt } = renderPrompt(
+    "slot-file",
+    {
+      ir: JSON.stringify(ir, null, 2),
+      manifest: manifestList,
+      file_path: entry.path,
+      file_role: entry.role,
+      file_purpose: entry.purpose,
+      dependencies: entry.dependsOn.length
+        ? entry.dependsOn.map((dep) => `### ${dep}\n${signatureOf(dep, done[dep] ?? "")}`).join("\n\n")
+        : "(none)"
+    },
+    promptVersion
+  );
+  const input: ChatMsg[] = [
+    { role: "system", content: system },
+    { role: "user", content: `Write ${entry.path}.` }
+  ];
+
+  let lastError = "";
+  for (let attempt = 1; attempt <= MAX_SLOT_ATTEMPTS; attempt++) {
+    try {
+      const { json, model } = await completeJSON(llm, { messages: input });
+      const content = json?.content;
+      if (typeof content !== "string" || !content.trim()) {
+        throw new Error("response had no `content` string");
+      }
+      return { content, provenance: { model, prompt, attempts: attempt } };
+    } catch (err: any) {
+      if (err instanceof BudgetExceededError) throw err;
+      lastError = String(err?.message || err);
+      log("generateFiles slot failed", { path: entry.path, attempt, error: lastError });
     }
   }
-  return files;
-}
\ No newline at end of file
+  throw new Error(`generateFiles: ${entry.path} failed after ${MAX_SLOT_ATTEMPTS} attempts: ${lastError}`);
+}
+
+/**
+ * What a dependent file needs to know about `content`: export declarations for modules,
+ * class names for CSS, and the whole file for small config/SQL.
+ */
+export function signatureOf(path: string, content: string): string {
+  if (/\.(m?js|ts)$/.test(path)) {
+    const exports = content
+      .split("\n")
+      .filter((line) => /^export\s/.test(line))
+      .map((line) => line.replace(/\s*\{\s*$/, "").trim());
+    return exports.length ? exports.join("\n") : "(no exports)";
+  }
+  if (path.endsWith(".css")) {
+    const classes = new Set(content.match(/\.[A-Za-z][\w-]*/g) || []);
+    return classes.size ? `classes: ${[...classes].join(" ")}` : "(no classes)";
+  }
+  return content.length > MAX_DEP_CHARS ? `${content.slice(0, MAX_DEP_CHARS)}\n… (truncated)` : content;
+}
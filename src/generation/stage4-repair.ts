@@ -1,6 +1,114 @@
-import type { Env } from "../index";
+import type { ChatMsg, Env } from "../types";
+import { signatureOf } from "./stage3-generateFiles";
+import { analyzeBundle, referencesOf, resolveReference, type Diagnostic } from "../utils/analyzeBundle";
+import { BudgetExceededError, completeJSON, getProvider, type LlmProvider } from "../llm";
+import { mapLimit } from "../utils/async";
+import { renderPrompt, type PromptRef } from "../prompts";
+import { json as log } from "../utils/log";
 
-// Placeholder: later parse tsc/eslint output and do targeted fixes.
-export async function repairIfNeeded(artifacts: Record<string, string>, _env: Env) {
-  return artifacts; // no-op for now
+/** Analyse → repair rounds before giving up. */
+const MAX_REPAIR_ITERATIONS = 3;
+const REPAIR_CONCURRENCY = 4;
+
+export type RepairReport = {
+  clean: boolean;
+  iterations: number;
+  /** Files whose diagnostics were cleared, with what was wrong with them. */
+  fixed: Array<{ path: string; iteration: number; diagnostics: Diagnostic[] }>;
+  /** Diagnostics still present after the last iteration. */
+  remaining: Diagnostic[];
+  /** Repair prompt used, when any file was sent to the model. */
+  prompt?: PromptRef;
+};
+
+/**
+ * Statically check the bundle and send each broken file, with its diagnostics, back to the
+ * model until the bundle is clean or MAX_REPAIR_ITERATIONS is reached.
+ */
+export async function repairIfNeeded(
+  artifacts: Record<string, string>,
+  env: Env,
+  opts: { llm?: LlmProvider; promptVersion?: string } = {}
+): Promise<{ files: Record<string, string>; report: RepairReport }> {
+  const llm = opts.llm || getProvider(env);
+  const files = { ...artifacts };
+  const report: RepairReport = { clean: false, iterations: 0, fixed: [], remaining: [] };
+
+  let diagnostics = analyzeBundle(files);
+  while (diagnostics.some(repairable) && report.iterations < MAX_REPAIR_ITERATIONS) {
+    const iteration = ++report.iterations;
+    const byFile = groupByPath(diagnostics.filter(repairable));
+    log("repair iteration", { iteration, files: Object.keys(byFile), count: diagnostics.length });
+
+    await mapLimit(Object.entries(byFile), REPAIR_CONCURRENCY, async ([path, diags]) => {
+      try {
+        const { content, prompt } = await repairFile(path, diags, files, llm, opts.promptVersion);
+        files[path] = content;
+        report.prompt = prompt;
+      } catch (err: any) {
+        if (err instanceof BudgetExceededError) throw err;
+        // Leave the file as-is; it shows up in `remaining` if still broken.
+        log("repair failed", { path, iteration, error: String(err?.message || err) });
+      }
+    });
+
+    const next = analyzeBundle(files);
+    const stillBroken = new Set(next.filter(repairable).map((d) => d.path));
+    for (const [path, diags] of Object.entries(byFile)) {
+      if (!stillBroken.has(path)) report.fixed.push({ path, iteration, diagnostics: diags });
+    }
+    diagnostics = next;
+  }
+
+  // Unchecked files (TypeScript) keep the bundle from counting as clean.
+  report.clean = diagnostics.length === 0;
+  report.remaining = diagnostics;
+  return { files, report };
+}
+
+async function repairFile(
+  path: string,
+  diagnostics: Diagnostic[],
+  files: Record<string, string>,
+  llm: LlmProvider,
+  promptVersion: string | undefined
+): Promise<{ content: string; prompt: PromptRef }> {
+  const related = referencesOf(path, files[path])
+    .map((r) => resolveReference(path, r.specifier, files))
+    .filter((p, i, all): p is string => !!p && all.indexOf(p) === i);
+
+  const { text: system, ref: prompt } = renderPrompt(
+    "repair",
+    {
+      file_path: path,
+      diagnostics: diagnostics.map((d) => `- [${d.kind}]${d.line ? ` line ${d.line}:` : ""} ${d.message}`).join("\n"),
+      files: Object.keys(files).map((p) => `- ${p}`).join("\n"),
+      related: related.length
+        ? related.map((p) => `### ${p}\n${signatureOf(p, files[p])}`).join("\n\n")
+        : "(none)",
+      content: files[path]
+    },
+    promptVersion
+  );
+  const input: ChatMsg[] = [
+    { role: "system", content: system },
+    { role: "user", content: `Fix ${path}.` }
+  ];
+
+  const { json } = await completeJSON(llm, { messages: input });
+  if (typeof json?.content !== "string" || !json.content.trim()) {
+    throw new Error("response had no `content` string");
+  }
+  return { content: json.content, prompt };
+}
+
+/** Files that couldn't be checked aren't sent to the model; it has nothing to go on. */
+function repairable(d: Diagnostic): boolean {
+  return d.kind !== "unchecked";
+}
+
+function groupByPath(diagnostics: Diagnostic[]): Record<string, Diagnostic[]> {
+  const out: Record<string, Diagnostic[]> = {};
+  for (const d of diagnostics) (out[d.path] ||= []).push(d);
+  return out;
 }
@@ -1,6 +1,245 @@
-import type { Env } from "../index";
+import type { Env } from "../types";
+import type { IR } from "@t/ir";
+import { contentTypeFor, isPrivateFile, isServerFile } from "../utils/fs-utils";
+import { json as log } from "../utils/log";
 
-export async function runSmoke(_artifacts: Record<string, string>, _env: Env) {
-  // Later: bundle in Miniflare and probe /, /api/health, /api/echo.
-  return { passed: true, logs: ["smoke stub passed"] };
+const SMOKE_ORIGIN = "https://smoke.launchwing.local";
+const PROBE_TIMEOUT_MS = 5_000;
+const ENTRY_MODULE = "__smoke_entry.js";
+
+export type SmokeProbe = {
+  kind: "page" | "route";
+  method: string;
+  path: string;
+  ok: boolean;
+  status?: number;
+  contentType?: string | null;
+  exception?: string;
+  ms: number;
+};
+
+export type SmokeResult = {
+  passed: boolean;
+  /** True when no sandbox was available; nothing was executed. */
+  skipped?: boolean;
+  logs: string[];
+  probes: SmokeProbe[];
+};
+
+/**
+ * Load the generated app into an isolated worker (Dynamic Worker Loader) with an in-memory
+ * ASSETS binding and D1/KV stand-ins, then request "/", every IR page and every API route.
+ */
+export async function runSmoke(artifacts: Record<string, string>, env: Env, ir: IR): Promise<SmokeResult> {
+  if (!env.LOADER) {
+    return { passed: false, skipped: true, logs: ["smoke skipped: LOADER binding not configured"], probes: [] };
+  }
+
+  const worker = env.LOADER.get(`smoke-${crypto.randomUUID()}`, () => ({
+    compatibilityDate: "2025-08-01",
+    mainModule: ENTRY_MODULE,
+    modules: sandboxModules(artifacts, ir),
+    globalOutbound: null
+  }));
+  const entry = worker.getEntrypoint();
+
+  const probes: SmokeProbe[] = [];
+  const pages = ["/", ...ir.pages.filter((p) => p !== "/")];
+  for (const page of pages) {
+    probes.push(await probe(entry, "page", "GET", page));
+  }
+  for (const route of ir.api_routes) {
+    probes.push(await probe(entry, "route", route.method, route.path.replace(/:[^/]+/g, "1")));
+  }
+
+  const logs = probes.map(
+    (p) =>
+      `${p.ok ? "PASS" : "FAIL"} ${p.method} ${p.path} → ${p.status ?? "no response"}` +
+      `${p.contentType ? ` (${p.contentType})` : ""}${p.exception ? ` exception: ${p.exception}` : ""}`
+  );
+  const passed = probes.every((p) => p.ok);
+  log("smoke result", { passed, failed: probes.filter((p) => !p.ok).length });
+  return { passed, logs, probes };
+}
+
+async function probe(
+  entry: { fetch(request: Request): Promise<Response> },
+  kind: SmokeProbe["kind"],
+  method: string,
+  path: string
+): Promise<SmokeProbe> {
+  const started = Date.now();
+  const hasBody = !["GET", "HEAD", "DELETE"].includes(method);
+  const request = new Request(`${SMOKE_ORIGIN}${path}`, {
+    method,
+    headers: {
+      accept: kind === "page" ? "text/html" : "application/json",
+      ...(hasBody ? { "content-type": "application/json" } : {})
+    },
+    body: hasBody ? "{}" : undefined
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const res = await Promise.race([
+      entry.fetch(request),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${PROBE_TIMEOUT_MS}ms`)), PROBE_TIMEOUT_MS);
+      })
+    ]);
+    await res.arrayBuffer();
+    const contentType = res.headers.get("content-type");
+    const thrown = res.headers.get("x-smoke-exception");
+    const exception = thrown ? decodeURIComponent(thrown) : undefined;
+
+    const ok =
+      !exception &&
+      (kind === "page"
+        ? res.status === 200 && !!contentType?.includes("text/html")
+        : res.status < 500 && res.status !== 405 && !!contentType?.includes("application/json"));
+    return { kind, method, path, ok, status: res.status, contentType, exception, ms: Date.now() - started };
+  } catch (err: any) {
+    // Module evaluation errors and timeouts surface here rather than as a response
+    return { kind, method, path, ok: false, exception: String(err?.message || err), ms: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Generated server modules plus an entry that wires in ASSETS/bindings and reports uncaught errors. */
+function sandboxModules(files: Record<string, string>, ir: IR): Record<string, string> {
+  const modules: Record<string, string> = {};
+  const assets: Record<string, { body: string; type: string }> = {};
+  for (const [path, content] of Object.entries(files)) {
+    if (isServerFile(path)) {
+      if (/\.m?js$/.test(path)) modules[path] = content;
+    } else if (!isPrivateFile(path)) {
+      assets[path] = { body: content, type: contentTypeFor(path) };
+    }
+  }
+
+  const bindings = [
+    ...(ir.bindings?.D1 || []).map((b) => `${JSON.stringify(b.name)}: d1()`),
+    ...(ir.bindings?.KV || []).map((b) => `${JSON.stringify(b.name)}: kv()`)
+  ];
+
+  let app: string;
+  if (files["_worker.js"]) {
+    app = `import app from "./_worker.js";`;
+  } else {
+    const functions = Object.keys(modules).filter((p) => p.startsWith("functions/"));
+    app = functions.length ? functionsRouter(functions) : `const app = { fetch: (req) => ASSETS.fetch(req) };`;
+  }
+
+  modules[ENTRY_MODULE] = `${app}
+
+const FILES = ${JSON.stringify(assets)};
+
+const ASSETS = {
+  async fetch(input, init) {
+    const req = new Request(input, init);
+    const path = decodeURIComponent(new URL(req.url).pathname).replace(/^\\/+/, "");
+    const candidates = path ? [path, path + ".html", path.replace(/\\/?$/, "/") + "index.html"] : ["index.html"];
+    const hit = candidates.find((p) => FILES[p]);
+    if (!hit) return new Response("Not found", { status: 404 });
+    return new Response(FILES[hit].body, { headers: { "content-type": FILES[hit].type } });
+  }
+};
+
+function kv() {
+  const m = new Map();
+  return {
+    async get(k, opts) {
+      const v = m.has(k) ? m.get(k) : null;
+      const type = typeof opts === "string" ? opts : opts && opts.type;
+      return v !== null && type === "json" ? JSON.parse(v) : v;
+    },
+    async put(k, v) { m.set(k, typeof v === "string" ? v : JSON.stringify(v)); },
+    async delete(k) { m.delete(k); },
+    async list() { return { keys: [...m.keys()].map((name) => ({ name })), list_complete: true }; }
+  };
+}
+
+// Accepts every statement and returns empty results: enough to exercise route code paths.
+function d1() {
+  const result = { results: [], success: true, meta: { changes: 0, last_row_id: 0, duration: 0 } };
+  const stmt = {
+    bind() { return stmt; },
+    async all() { return result; },
+    async first() { return null; },
+    async run() { return result; },
+    async raw() { return []; }
+  };
+  return {
+    prepare() { return stmt; },
+    async batch(list) { return list.map(() => result); },
+    async exec() { return { count: 0, duration: 0 }; }
+  };
+}
+
+const ENV = { ASSETS, ${bindings.join(", ")} };
+
+export default {
+  async fetch(request, _env, ctx) {
+    try {
+      return await app.fetch(request, ENV, ctx);
+    } catch (err) {
+      return new Response(String((err && err.stack) || err), {
+        status: 500,
+        headers: { "x-smoke-exception": encodeURIComponent(String((err && err.message) || err)) }
+      });
+    }
+  }
+};
+`;
+  return modules;
+}
+
+/**
+ * Minimal Pages Functions file-based router: [param].js, [[catchall]].js, index.js, onRequest<Method>.
+ * Declares `app` ({ fetch }); stage6-deploy reuses it as the sandbox Worker's entry.
+ */
+export function functionsRouter(paths: string[]): string {
+  const imports = paths.map((p, i) => `import * as m${i} from "./${p}";`).join("\n");
+  const routes = paths.map((p, i) => {
+    const segments = p
+      .replace(/^functions\//, "")
+      .replace(/\.m?js$/, "")
+      .split("/")
+      .filter((s) => s !== "index");
+    return `{ segments: ${JSON.stringify(segments)}, mod: m${i} }`;
+  });
+
+  return `${imports}
+
+const ROUTES = [${routes.join(", ")}];
+
+function match(segments, parts) {
+  const params = {};
+  for (let i = 0; i < segments.length; i++) {
+    const s = segments[i];
+    const catchAll = s.match(/^\\[\\[(\\w+)\\]\\]$/);
+    if (catchAll) { params[catchAll[1]] = parts.slice(i); return params; }
+    if (i >= parts.length) return null;
+    const param = s.match(/^\\[(\\w+)\\]$/);
+    if (param) params[param[1]] = parts[i];
+    else if (s !== parts[i]) return null;
+  }
+  return segments.length === parts.length ? params : null;
+}
+
+const app = {
+  async fetch(request, env, ctx) {
+    const parts = new URL(request.url).pathname.split("/").filter(Boolean);
+    const method = request.method[0] + request.method.slice(1).toLowerCase();
+    for (const { segments, mod } of ROUTES) {
+      const params = match(segments, parts);
+      const handler = params && (mod["onRequest" + method] || mod.onRequest);
+      if (handler) {
+        return handler({ request, env, params, data: {}, waitUntil: () => {}, next: () => env.ASSETS.fetch(request) });
+      }
+    }
+    return env.ASSETS.fetch(request);
+  }
+};`;
 }
@@ -1,84 +1,90 @@
-import type { Env } from "../index";
+import type { Env } from "../types";
 import type { IR } from "@t/ir";
-import { uploadModuleWorker, shortId, type DeployResult } from "@utils/cloudflare";
+import { uploadModuleWorker, shortId, workerScriptExists, type DeployResult } from "@utils/cloudflare";
+import { isPrivateFile, isServerFile } from "@utils/fs-utils";
+import { startDeployment } from "@utils/deployments";
+import { requireAppEnv, workerEnvBindings } from "@utils/appEnv";
+import { provisionBindings, workerBindings } from "@utils/provision";
+import { functionsRouter, type SmokeResult } from "./stage5-smoke";
 
-/** HTML escapable for embedding values in the generated landing page */
-function escapeHtmlTs(s: string): string {
-  return String(s).replace(/[&<>"']/g, (c) =>
-    ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" } as Record<string, string>)[c]
-  );
-}
+const ENTRY_MODULE = "__launchwing_entry.js";
+
+export type DeployOptions = {
+  /** Deploys of the same idea replace one script, whose history GET /apps/:name/deployments lists. */
+  ideaId?: string;
+  generationId?: string;
+  smoke?: SmokeResult;
+};
 
 /**
- * For MVP sandbox, we deploy a minimal single-file Module Worker that:
- * - serves a simple HTML landing at "/"
- * - exposes /api/health and /api/echo
- * This avoids bundling the React SPA and still gives the user a live URL.
+ * Deploy the generated bundle as a sandbox Worker on workers.dev, the way Pages would serve it:
+ * static files are uploaded as Workers assets (bound as ASSETS), and requests that match no
+ * asset go to `_worker.js` or, failing that, a router over the Pages Functions in `functions/`.
+ * Only JS server modules are uploaded; TypeScript sources need a build step and are skipped, as
+ * are config and repo files (wrangler.toml, README.md, .github/, .launchwing.json).
+ * D1 databases and KV namespaces in `ir.bindings` are created for the script (migrations applied)
+ * and bound under their IR names, with the variables set through PUT /apps/:name/env; a required
+ * one (IR `env`) without a value throws an EnvError before anything is created. Progress is
+ * recorded as a deployment that GET /deployments/:id reports (`deploymentId`); the uploaded
+ * bundle is stored with it, for rollback.
  */
-export async function deploy(artifacts: Record<string, string>, env: Env, ir?: IR): Promise<DeployResult> {
+export async function deploy(
+  artifacts: Record<string, string>,
+  env: Env,
+  ir?: IR,
+  opts: DeployOptions = {}
+): Promise<DeployResult & { deploymentId: string }> {
   const nameBase =
     (ir?.name || "app").toLowerCase().replace(/[^a-z0-9-]/g, "-").replace(/-+/g, "-").slice(0, 24) || "app";
-  const scriptName = `${nameBase}-${shortId()}`;
+  const suffix = opts.ideaId ? opts.ideaId.toLowerCase().replace(/[^a-z0-9]+/g, "-") : shortId();
+  const scriptName = `${nameBase}-${suffix}`.slice(0, 63).replace(/-+$/, "");
+  const appEnv = await requireAppEnv(env, scriptName, ir, "production");
+  const tracker = await startDeployment(env, "worker", scriptName, {
+    generationId: opts.generationId,
+    smoke: opts.smoke && { passed: opts.smoke.passed, ...(opts.smoke.skipped ? { skipped: true } : {}) }
+  });
+
+  const modules: Record<string, string> = {};
+  const assets: Record<string, string> = {};
+  for (const [path, content] of Object.entries(artifacts)) {
+    if (isServerFile(path)) {
+      if (/\.m?js$/.test(path)) modules[path] = content;
+    } else if (!isPrivateFile(path)) {
+      assets[path] = content;
+    }
+  }
 
-  // Pull some details from IR/artifacts to show on the landing page
-  const appName = ir?.name || "Generated App";
-  const appType = ir?.app_type || "spa_api";
-  const pages = Array.isArray(ir?.pages) ? ir!.pages.join(", ") : "/";
-  const routes = Array.isArray(ir?.api_routes) ? ir!.api_routes.map((r) => `${r.method} ${r.path}`).join(", ") : "—";
+  let mainModule = "_worker.js";
+  if (!modules[mainModule]) {
+    const functions = Object.keys(modules).filter((p) => p.startsWith("functions/"));
+    mainModule = ENTRY_MODULE;
+    modules[ENTRY_MODULE] = functions.length
+      ? `${functionsRouter(functions)}\n\nexport default app;\n`
+      : `export default { fetch: (request, env) => env.ASSETS.fetch(request) };\n`;
+  }
 
-  // Pre-escape for HTML; JSON values we’ll inject via JSON.stringify
-  const appNameHtml = escapeHtmlTs(appName);
-  const appTypeHtml = escapeHtmlTs(appType);
-  const pagesHtml = escapeHtmlTs(pages);
-  const routesHtml = escapeHtmlTs(routes);
+  try {
+    const provisioned = await provisionBindings(env, scriptName, ir, artifacts, tracker.log);
+    await tracker.resources(provisioned);
+    const bindings = workerBindings(provisioned);
 
-  // Minimal Module Worker code string (ES module)
-  const code = `
-export default {
-  async fetch(req, env, ctx) {
-    const url = new URL(req.url);
-    if (url.pathname === "/") {
-      const html =
-\`<!doctype html><html><head>
-<meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
-<title>${appNameHtml}</title>
-<style>body{font-family:system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;margin:2rem;line-height:1.5;max-width:860px}
-code{background:#f6f7f9;padding:.2rem .35rem;border-radius:.25rem}
-pre{background:#0b1021;color:#e8eaf6;padding:12px;border-radius:8px;overflow:auto}</style>
-</head><body>
-<h1>${appNameHtml}</h1>
-<p><strong>Type:</strong> ${appTypeHtml}</p>
-<p><strong>Pages:</strong> ${pagesHtml}</p>
-<p><strong>API Routes:</strong> ${routesHtml}</p>
-<p>This is a sandbox deployment created by LaunchWing Orchestrator.</p>
-<hr>
-<p>Try: <code>GET /api/health</code> or send <code>{"message":"hi"}</code> to <code>POST /api/echo</code>.</p>
-</body></html>\`;
-      return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
-    }
-    if (url.pathname === "/api/health" && req.method === "GET") {
-      return new Response(JSON.stringify({ ok: true, service: ${JSON.stringify(appName)} }), {
-        headers: { "content-type": "application/json" }
-      });
-    }
-    if (url.pathname === "/api/echo" && req.method === "POST") {
-      try {
-        const b = await req.json();
-        return new Response(JSON.stringify({ ok: true, data: b }), {
-          headers: { "content-type": "application/json" }
-        });
-      } catch {
-        return new Response(JSON.stringify({ ok: false, error: "Invalid JSON" }), {
-          status: 400,
-          headers: { "content-type": "application/json" }
-        });
-      }
-    }
-    return new Response("Not found", { status: 404 });
+    await tracker.bundle({ ...modules, ...assets }, { mainModule, modules: Object.keys(modules), bindings });
+    const counts = `${Object.keys(modules).length} modules (entry ${mainModule}) and ${Object.keys(assets).length} assets`;
+    await tracker.stage("uploading", `Uploading ${counts}`);
+    // Variables aren't stored with the bundle; a rollback uploads the values current then.
+    const vars = await workerEnvBindings(env, appEnv);
+    const existed = await workerScriptExists(env, scriptName);
+    const result = await uploadModuleWorker(env, scriptName, {
+      modules,
+      mainModule,
+      assets,
+      bindings: [...bindings, ...vars]
+    });
+    if (!existed) await tracker.created();
+    await tracker.deployed(result.url);
+    return { ...result, deploymentId: tracker.id };
+  } catch (err) {
+    await tracker.failed(err);
+    throw err;
   }
 }
-`.trim();
-
-  const result = await uploadModuleWorker(scriptName, code, env as unknown as Record<string, string>);
-  return result;
-}
\ No newline at end of file
@@ -2,19 +2,28 @@ import type { Env } from "./types";
 import { healthHandler } from "./api/health";
 import { mvpHandler } from "./api/mvp";
 import { githubExportHandler } from "./api/github-export";
+import { githubImportHandler } from "./api/github-import";
 import { sandboxDeployHandler } from "./api/sandbox-deploy";
+import { deploymentHandler, deploymentKeepHandler } from "./api/deployments";
+import { appDeploymentsHandler, appRollbackHandler } from "./api/apps";
+import { appDomainHandler, appDomainStatusHandler } from "./api/domains";
+import { appEnvHandler, appEnvUpdateHandler } from "./api/env";
 import { json as log } from "./utils/log";
+import { githubErrorStatus, GitHubRateLimitError } from "./utils/githubClient";
+import { teardownExpiredSandboxes } from "./utils/teardown";
+
+export { DeploymentRegistry } from "./utils/deployments";
 
 function withCors(res: Response) {
   const hdrs = new Headers(res.headers);
   hdrs.set("access-control-allow-origin", "*");
-  hdrs.set("access-control-allow-methods", "GET,POST,OPTIONS");
+  hdrs.set("access-control-allow-methods", "GET,POST,PUT,OPTIONS");
   hdrs.set("access-control-allow-headers", "content-type, authorization");
   return new Response(res.body, { ...res, headers: hdrs });
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname.replace(/\/+$/, "") || "/";
     if (request.method === "OPTIONS") {
@@ -32,8 +41,42 @@ export default {
       if (request.method === "POST" && path === "/github-export") {
         return withCors(await githubExportHandler(request, env));
       }
+      if (request.method === "POST" && path === "/github-import") {
+        return withCors(await githubImportHandler(request, env));
+      }
       if (request.method === "POST" && path === "/sandbox-deploy") {
-        return withCors(await sandboxDeployHandler(request, env));
+        return withCors(await sandboxDeployHandler(request, env, ctx));
+      }
+      const deployment = path.match(/^\/deployments\/([\w-]+)$/);
+      if (request.method === "GET" && deployment) {
+        return withCors(await deploymentHandler(request, env, deployment[1]));
+      }
+      const keep = path.match(/^\/deployments\/([\w-]+)\/keep$/);
+      if (request.method === "POST" && keep) {
+        return withCors(await deploymentKeepHandler(request, env, keep[1]));
+      }
+      const appDeployments = path.match(/^\/apps\/([\w-]+)\/deployments$/);
+      if (request.method === "GET" && appDeployments) {
+        return withCors(await appDeploymentsHandler(request, env, appDeployments[1]));
+      }
+      const rollback = path.match(/^\/apps\/([\w-]+)\/rollback$/);
+      if (request.method === "POST" && rollback) {
+        return withCors(await appRollbackHandler(request, env, rollback[1]));
+      }
+      const domains = path.match(/^\/apps\/([\w-]+)\/domains$/);
+      if (request.method === "POST" && domains) {
+        return withCors(await appDomainHandler(request, env, domains[1]));
+      }
+      const domain = path.match(/^\/apps\/([\w-]+)\/domains\/([\w.-]+)$/);
+      if (request.method === "GET" && domain) {
+        return withCors(await appDomainStatusHandler(request, env, domain[1], domain[2]));
+      }
+      const appEnv = path.match(/^\/apps\/([\w-]+)\/env$/);
+      if (request.method === "GET" && appEnv) {
+        return withCors(await appEnvHandler(request, env, appEnv[1]));
+      }
+      if (request.method === "PUT" && appEnv) {
+        return withCors(await appEnvUpdateHandler(request, env, appEnv[1]));
       }
 
       return withCors(
@@ -43,13 +86,19 @@ export default {
         })
       );
     } catch (err: any) {
-      log("Request error", { path, error: String(err?.message || err) });
+      // GitHub failures keep their meaning (404, 403, 409, 422, 429); anything else is a 500.
+      const status = githubErrorStatus(err) ?? 500;
+      log("Request error", { path, status, error: String(err?.message || err) });
+      const headers: Record<string, string> = { "content-type": "application/json" };
+      if (err instanceof GitHubRateLimitError) headers["retry-after"] = String(Math.ceil(err.retryAfterMs / 1000));
       return withCors(
-        new Response(JSON.stringify({ error: String(err?.message || err) }), {
-          status: 500,
-          headers: { "content-type": "application/json" }
-        })
+        new Response(JSON.stringify({ error: String(err?.message || err) }), { status, headers })
       );
     }
+  },
+
+  // Cron trigger (wrangler.toml): remove sandboxes past SANDBOX_TTL_HOURS
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(teardownExpiredSandboxes(env));
   }
 } satisfies ExportedHandler<Env>;
\ No newline at end of file
@@ -0,0 +1,62 @@
+import type { LlmProvider, LlmRequest, LlmResponse } from "./types";
+import { safeParseJson } from "./json";
+
+/**
+ * Any OpenAI-compatible `POST /chat/completions` endpoint (vLLM, Ollama, LM Studio,
+ * llama.cpp server, …). The API key is optional for self-hosted servers.
+ */
+export function createChatCompletionsProvider(opts: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): LlmProvider {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "chat-completions",
+    model: opts.model,
+    async complete(req: LlmRequest): Promise<LlmResponse> {
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(opts.apiKey ? { authorization: `Bearer ${opts.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: opts.model,
+          messages: req.messages,
+          temperature: req.temperature ?? 0.2,
+          ...(req.maxOutputTokens ? { max_tokens: req.maxOutputTokens } : {}),
+          ...(req.json
+            ? {
+                response_format: req.json.schema
+                  ? { type: "json_schema", json_schema: { name: req.json.name, schema: req.json.schema } }
+                  : { type: "json_object" }
+              }
+            : {})
+        })
+      });
+
+      const requestId = res.headers.get("x-request-id");
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(`chat-completions ${res.status}: ${text.slice(0, 400)}`);
+      }
+
+      const raw: any = await res.json();
+      const text = String(raw?.choices?.[0]?.message?.content ?? "");
+      return {
+        text,
+        json: req.json ? safeParseJson(text) : undefined,
+        provider: "chat-completions",
+        model: raw?.model || opts.model,
+        usage: {
+          inputTokens: Number(raw?.usage?.prompt_tokens) || 0,
+          outputTokens: Number(raw?.usage?.completion_tokens) || 0
+        },
+        requestId: requestId || raw?.id || null,
+        raw
+      };
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import type { FakeFixture, LlmProvider, LlmRequest, LlmResponse } from "./types";
+import { safeParseJson } from "./json";
+
+/**
+ * Deterministic provider for offline runs: each call returns the first unused fixture whose
+ * `match` appears in the request messages. Usage defaults to a chars/4 estimate.
+ */
+export function createFakeProvider(fixtures: FakeFixture[], model = "fake"): LlmProvider {
+  const used = new Set<number>();
+  let calls = 0;
+
+  return {
+    name: "fake",
+    model,
+    async complete(req: LlmRequest): Promise<LlmResponse> {
+      const haystack = req.messages.map((m) => m.content).join("\n");
+      const index = fixtures.findIndex((f, i) => !used.has(i) && matches(f.match, haystack));
+      if (index < 0) {
+        throw new Error(`fake provider: no fixture matches request ${calls + 1}: ${haystack.slice(-200)}`);
+      }
+      const fixture = fixtures[index];
+      if (!fixture.repeat) used.add(index);
+      calls++;
+
+      const text = typeof fixture.response === "string" ? fixture.response : JSON.stringify(fixture.response);
+      return {
+        text,
+        json: req.json ? safeParseJson(text) : undefined,
+        provider: "fake",
+        model,
+        usage: {
+          inputTokens: fixture.usage?.inputTokens ?? Math.ceil(haystack.length / 4),
+          outputTokens: fixture.usage?.outputTokens ?? Math.ceil(text.length / 4)
+        },
+        requestId: `fake-${calls}`
+      };
+    }
+  };
+}
+
+function matches(match: string | undefined, haystack: string): boolean {
+  if (!match) return true;
+  const re = match.match(/^\/(.+)\/([a-z]*)$/);
+  return re ? new RegExp(re[1], re[2]).test(haystack) : haystack.includes(match);
+}
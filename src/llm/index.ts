@@ -0,0 +1,63 @@
+import type { LlmEnv, LlmProvider, LlmRequest, LlmResponse } from "./types";
+import { createOpenAIResponsesProvider } from "./openai-responses";
+import { createChatCompletionsProvider } from "./chat-completions";
+import { createFakeProvider } from "./fake";
+import { meteredProvider, type UsageMeter } from "./usage";
+
+export type { FakeFixture, LlmEnv, LlmProvider, LlmRequest, LlmResponse, LlmUsage } from "./types";
+export { createOpenAIResponsesProvider, createChatCompletionsProvider, createFakeProvider };
+export {
+  BudgetExceededError,
+  createUsageMeter,
+  meteredProvider,
+  parseBudget,
+  usageMeterFor,
+  type Budget,
+  type UsageMeter,
+  type UsageReport
+} from "./usage";
+
+/**
+ * A new provider selected by LLM_PROVIDER: "openai" (default), "chat" or "fake".
+ * With a meter, every call is checked against its budget and recorded in it.
+ * Stateful providers (fake) keep their state per instance, so create one per run and share it
+ * between that run's calls; `env` outlives the request in a Worker isolate.
+ */
+export function getProvider(env: LlmEnv, meter?: UsageMeter): LlmProvider {
+  const provider = createProvider(env);
+  return meter ? meteredProvider(provider, meter) : provider;
+}
+
+function createProvider(env: LlmEnv): LlmProvider {
+  switch (env.LLM_PROVIDER || "openai") {
+    case "openai":
+      if (!env.OPENAI_API_KEY) throw new Error("Missing env: OPENAI_API_KEY");
+      return createOpenAIResponsesProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL || "gpt-4o-mini",
+        baseUrl: env.LLM_BASE_URL
+      });
+    case "chat":
+      if (!env.LLM_BASE_URL) throw new Error("Missing env: LLM_BASE_URL");
+      if (!env.LLM_MODEL) throw new Error("Missing env: LLM_MODEL");
+      return createChatCompletionsProvider({
+        baseUrl: env.LLM_BASE_URL,
+        model: env.LLM_MODEL,
+        apiKey: env.LLM_API_KEY
+      });
+    case "fake": {
+      const fixtures = env.LLM_FAKE_FIXTURES || [];
+      return createFakeProvider(typeof fixtures === "string" ? JSON.parse(fixtures) : fixtures);
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${env.LLM_PROVIDER}`);
+  }
+}
+
+/** complete() in JSON mode; `json` on the result is the parsed object or null. */
+export function completeJSON(
+  provider: LlmProvider,
+  req: Omit<LlmRequest, "json"> & { json?: LlmRequest["json"] }
+): Promise<LlmResponse> {
+  return provider.complete({ ...req, json: req.json || { name: "result" } });
+}
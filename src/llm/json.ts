@@ -0,0 +1,22 @@
+/** Strict JSON parse with fallback to first balanced {...} block. */
+export function safeParseJson(raw: string): any | null {
+  const s = raw?.trim();
+  if (!s) return null;
+
+  try {
+    return JSON.parse(s);
+  } catch {
+    // Attempt to slice the first balanced JSON object
+    const start = s.indexOf("{");
+    const end = s.lastIndexOf("}");
+    if (start >= 0 && end > start) {
+      const slice = s.slice(start, end + 1);
+      try {
+        return JSON.parse(slice);
+      } catch {
+        // no-op
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+import type { LlmProvider, LlmRequest, LlmResponse } from "./types";
+import { safeParseJson } from "./json";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/** OpenAI Responses API (`POST /v1/responses`). */
+export function createOpenAIResponsesProvider(opts: {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+}): LlmProvider {
+  const baseUrl = (opts.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    name: "openai-responses",
+    model: opts.model,
+    async complete(req: LlmRequest): Promise<LlmResponse> {
+      const res = await fetch(`${baseUrl}/responses`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${opts.apiKey}`
+        },
+        body: JSON.stringify({
+          model: opts.model,
+          input: req.messages,
+          temperature: req.temperature ?? 0.2,
+          top_p: 1,
+          ...(req.maxOutputTokens ? { max_output_tokens: req.maxOutputTokens } : {}),
+          ...(req.json
+            ? {
+                text: {
+                  format: req.json.schema
+                    ? { type: "json_schema", name: req.json.name, schema: req.json.schema, strict: false }
+                    : { type: "json_object" }
+                }
+              }
+            : {})
+        })
+      });
+
+      const requestId = res.headers.get("x-request-id");
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(`OpenAI ${res.status}: ${text.slice(0, 400)}${requestId ? ` (request ${requestId})` : ""}`);
+      }
+
+      const raw: any = await res.json();
+      const text = extractOutputText(raw);
+      return {
+        text,
+        json: req.json ? safeParseJson(text) : undefined,
+        provider: "openai-responses",
+        model: raw?.model || opts.model,
+        usage: {
+          inputTokens: Number(raw?.usage?.input_tokens) || 0,
+          outputTokens: Number(raw?.usage?.output_tokens) || 0
+        },
+        requestId: requestId || raw?.id || null,
+        raw
+      };
+    }
+  };
+}
+
+/** Try several shapes the Responses API may return; fall back to common fields. */
+export function extractOutputText(j: any): string {
+  if (!j) return "";
+  // Newer format
+  if (typeof j.output_text === "string") return j.output_text;
+  // Older content list
+  if (Array.isArray(j.output)) {
+    const parts = j.output
+      .map((p: any) => {
+        if (typeof p.text === "string") return p.text;
+        if (Array.isArray(p.content)) {
+          return p.content.map((c: any) => (typeof c.text === "string" ? c.text : c.text?.value || "")).join("");
+        }
+        return "";
+      })
+      .join("");
+    if (parts) return parts;
+  }
+  // Fallbacks
+  if (Array.isArray(j.content) && j.content[0]?.text) return j.content[0].text;
+  return typeof j === "string" ? j : JSON.stringify(j);
+}
@@ -0,0 +1,58 @@
+import type { ChatMsg } from "../types";
+import type { JsonSchema } from "../utils/schema";
+
+export type LlmUsage = { inputTokens: number; outputTokens: number };
+
+export interface LlmRequest {
+  messages: ChatMsg[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Ask for a single JSON object; with a schema, providers that support it enforce the shape. */
+  json?: { name: string; schema?: JsonSchema };
+}
+
+export interface LlmResponse {
+  text: string;
+  /** Parsed JSON when `json` was requested (null if the text wasn't JSON). */
+  json?: any | null;
+  provider: string;
+  model: string;
+  usage: LlmUsage;
+  requestId: string | null;
+  /** Provider response body, for debugging only. */
+  raw?: unknown;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(req: LlmRequest): Promise<LlmResponse>;
+}
+
+/** Env keys read by getProvider; the Pages function passes only the ones it has. */
+export interface LlmEnv {
+  OPENAI_API_KEY?: string;
+  OPENAI_MODEL?: string;
+  /** "openai" (default) | "chat" | "fake" */
+  LLM_PROVIDER?: string;
+  /** chat: OpenAI-compatible base URL, e.g. http://localhost:11434/v1 */
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+  LLM_MODEL?: string;
+  /** fake: fixtures as a JSON string (wrangler var) or an array (tests) */
+  LLM_FAKE_FIXTURES?: string | FakeFixture[];
+  /** JSON price table merged over DEFAULT_PRICES: {"model": {"input": usdPerMTok, "output": usdPerMTok}} */
+  LLM_PRICES?: string;
+  /** Default per-call output cap (tokens) */
+  LLM_MAX_OUTPUT_TOKENS?: string;
+}
+
+export type FakeFixture = {
+  /** Substring (or /regex/) matched against all message contents; omit to match anything. */
+  match?: string;
+  /** Reply text; objects are JSON-stringified. */
+  response: string | Record<string, unknown>;
+  usage?: Partial<LlmUsage>;
+  /** Keep the fixture available after it's used (default: consumed once). */
+  repeat?: boolean;
+};
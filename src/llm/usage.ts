@@ -0,0 +1,188 @@
+import type { LlmEnv, LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+/** USD per million tokens. */
+export type ModelPrice = { input: number; output: number };
+export type PriceTable = Record<string, ModelPrice>;
+
+/** List prices at the time of writing; override or extend with LLM_PRICES. */
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  fake: { input: 0, output: 0 }
+};
+
+/** Per-call output cap under a budget when neither the caller nor LLM_MAX_OUTPUT_TOKENS sets one. */
+export const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+/** Limits for one generation; either may be omitted. */
+export type Budget = { maxTokens?: number; maxCostUsd?: number };
+
+export type UsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+};
+
+export type UsageReport = UsageTotals & {
+  byStage: Record<string, UsageTotals>;
+  budget?: Budget;
+  /** Models with no entry in the price table; their calls are counted at $0. */
+  unpricedModels?: string[];
+};
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    readonly usage: UsageReport
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+export interface UsageMeter {
+  /** Add one call's usage; throws BudgetExceededError once the budget is used up. */
+  record(res: Pick<LlmResponse, "model" | "usage">): void;
+  /** Throw BudgetExceededError if nothing is left; otherwise the tokens left (undefined = no token limit). */
+  check(): number | undefined;
+  /** A meter that records into this one under `stage`. */
+  scope(stage: string): UsageMeter;
+  report(): UsageReport;
+  /** Undefined = no cap: neither LLM_MAX_OUTPUT_TOKENS nor a budget is set. */
+  readonly maxOutputTokens: number | undefined;
+}
+
+/** One meter per generation. Calls recorded through scope(stage) are also totalled per stage. */
+export function createUsageMeter(opts: {
+  prices?: PriceTable;
+  budget?: Budget;
+  maxOutputTokens?: number;
+} = {}): UsageMeter {
+  const prices = opts.prices || DEFAULT_PRICES;
+  const budget = opts.budget && (opts.budget.maxTokens || opts.budget.maxCostUsd) ? opts.budget : undefined;
+  const total = emptyTotals();
+  const byStage: Record<string, UsageTotals> = {};
+  const unpriced = new Set<string>();
+  const maxOutputTokens = opts.maxOutputTokens || (budget ? DEFAULT_MAX_OUTPUT_TOKENS : undefined);
+
+  const report = (): UsageReport => ({
+    ...rounded(total),
+    byStage: Object.fromEntries(Object.entries(byStage).map(([k, v]) => [k, rounded(v)])),
+    ...(budget ? { budget } : {}),
+    ...(unpriced.size ? { unpricedModels: [...unpriced] } : {})
+  });
+
+  const exceeded = (): string | null => {
+    const tokens = total.inputTokens + total.outputTokens;
+    if (budget?.maxTokens && tokens >= budget.maxTokens) {
+      return `token budget exceeded: ${tokens} of ${budget.maxTokens} tokens used`;
+    }
+    if (budget?.maxCostUsd && total.costUsd >= budget.maxCostUsd) {
+      return `cost budget exceeded: $${total.costUsd.toFixed(4)} of $${budget.maxCostUsd} used`;
+    }
+    return null;
+  };
+
+  const meter = (stage?: string): UsageMeter => ({
+    maxOutputTokens,
+    record(res) {
+      const price = priceFor(prices, res.model);
+      if (!price) unpriced.add(res.model);
+      const cost = price
+        ? (res.usage.inputTokens * price.input + res.usage.outputTokens * price.output) / 1_000_000
+        : 0;
+      const targets = stage ? [total, (byStage[stage] ||= emptyTotals())] : [total];
+      for (const t of targets) {
+        t.calls++;
+        t.inputTokens += res.usage.inputTokens;
+        t.outputTokens += res.usage.outputTokens;
+        t.costUsd += cost;
+      }
+      const over = exceeded();
+      if (over) throw new BudgetExceededError(`Generation stopped: ${over}`, report());
+    },
+    check() {
+      const over = exceeded();
+      if (over) throw new BudgetExceededError(`Generation stopped: ${over}`, report());
+      return budget?.maxTokens ? budget.maxTokens - total.inputTokens - total.outputTokens : undefined;
+    },
+    scope: (name) => meter(name),
+    report
+  });
+
+  return meter();
+}
+
+/**
+ * Wrap `provider` so every call is checked against and recorded in `meter`. The output cap is
+ * the caller's maxOutputTokens (or the meter's, if any), clamped to the tokens left in the budget.
+ */
+export function meteredProvider(provider: LlmProvider, meter: UsageMeter): LlmProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(req: LlmRequest): Promise<LlmResponse> {
+      const left = meter.check();
+      const cap = req.maxOutputTokens || meter.maxOutputTokens;
+      const res = await provider.complete({
+        ...req,
+        maxOutputTokens: left === undefined ? cap : Math.min(cap ?? left, left)
+      });
+      meter.record(res);
+      return res;
+    }
+  };
+}
+
+/** DEFAULT_PRICES with LLM_PRICES (JSON, same shape) merged over it. */
+export function pricesFromEnv(env: LlmEnv): PriceTable {
+  if (!env.LLM_PRICES) return DEFAULT_PRICES;
+  try {
+    return { ...DEFAULT_PRICES, ...(JSON.parse(env.LLM_PRICES) as PriceTable) };
+  } catch {
+    throw new Error("LLM_PRICES is not valid JSON");
+  }
+}
+
+/** Meter settings from env (prices, output cap) plus the caller's budget. */
+export function usageMeterFor(env: LlmEnv, budget?: Budget): UsageMeter {
+  return createUsageMeter({
+    prices: pricesFromEnv(env),
+    budget,
+    maxOutputTokens: Number(env.LLM_MAX_OUTPUT_TOKENS) || undefined
+  });
+}
+
+/** Validate a caller-supplied budget (request body); undefined when absent. */
+export function parseBudget(raw: unknown): Budget | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) throw new Error("budget must be an object");
+  const { maxTokens, maxCostUsd } = raw as Record<string, unknown>;
+  for (const [key, v] of Object.entries({ maxTokens, maxCostUsd })) {
+    if (v !== undefined && (typeof v !== "number" || !(v > 0))) {
+      throw new Error(`budget.${key} must be a positive number`);
+    }
+  }
+  return { maxTokens: maxTokens as number | undefined, maxCostUsd: maxCostUsd as number | undefined };
+}
+
+/** Exact model id, else the longest priced prefix (dated snapshots like gpt-4o-mini-2024-07-18). */
+function priceFor(prices: PriceTable, model: string): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function rounded(t: UsageTotals): UsageTotals {
+  return { ...t, costUsd: Math.round(t.costUsd * 1e6) / 1e6 };
+}
@@ -0,0 +1,117 @@
+import ideaToIR from "./idea-to-ir.prompt.md";
+import ideaToIRv1 from "./versions/idea-to-ir.v1.prompt.md";
+import slotFile from "./slot-file.prompt.md";
+import repair from "./repair.prompt.md";
+import mvpBundle from "./mvp-bundle.prompt.md";
+import pagesBundle from "./pages-bundle.prompt.md";
+
+/** Variables each prompt expects; `{{name}}` in the template is replaced with vars.name. */
+export type PromptVars = {
+  "idea-to-ir": { schema: string };
+  "slot-file": {
+    ir: string;
+    manifest: string;
+    file_path: string;
+    file_role: string;
+    file_purpose: string;
+    dependencies: string;
+  };
+  repair: { file_path: string; diagnostics: string; files: string; related: string; content: string };
+  "mvp-bundle": { schema: string };
+  "pages-bundle": Record<string, never>;
+};
+
+export type PromptId = keyof PromptVars;
+
+/** Identifies the exact prompt text a result was generated with. */
+export type PromptRef = { id: PromptId; version: string; hash: string };
+
+/** Pin prompts by version ("2") or content hash prefix; unpinned prompts use the latest version. */
+export type PromptVersions = Partial<Record<PromptId, string>>;
+
+/**
+ * Every selectable version of each prompt, latest first. To change a prompt, copy the current
+ * file to ./versions/<id>.v<version>.prompt.md, import that copy here after the current one,
+ * then edit the current file and bump the `version` in its front matter.
+ */
+const SOURCES: Record<PromptId, string[]> = {
+  "idea-to-ir": [ideaToIR, ideaToIRv1],
+  "slot-file": [slotFile],
+  repair: [repair],
+  "mvp-bundle": [mvpBundle],
+  "pages-bundle": [pagesBundle]
+};
+
+type Template = PromptRef & { text: string };
+
+const registry = Object.fromEntries(
+  Object.entries(SOURCES).map(([id, sources]) => [id, sources.map((s) => parse(id as PromptId, s))])
+) as Record<PromptId, Template[]>;
+
+/** The template `pin` selects (latest when omitted); throws for unknown versions. */
+export function getPrompt(id: PromptId, pin?: string): Template {
+  const versions = registry[id];
+  if (!versions) throw new Error(`Unknown prompt: ${id}`);
+  if (!pin) return versions[0];
+  const found = versions.find((t) => t.version === pin || (pin.length >= 6 && t.hash.startsWith(pin)));
+  if (!found) {
+    throw new Error(`Unknown version "${pin}" of prompt ${id} (have ${versions.map((t) => t.version).join(", ")})`);
+  }
+  return found;
+}
+
+/** getPrompt without the text, for recording in results. */
+export function promptRef(id: PromptId, pin?: string): PromptRef {
+  const { text: _text, ...ref } = getPrompt(id, pin);
+  return ref;
+}
+
+/** Substitute `vars` into the selected template; every placeholder must have a value. */
+export function renderPrompt<K extends PromptId>(
+  id: K,
+  vars: PromptVars[K],
+  pin?: string
+): { text: string; ref: PromptRef } {
+  const { text, ...ref } = getPrompt(id, pin);
+  const values = vars as Record<string, string>;
+  const rendered = text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_m, key: string) => {
+    if (!(key in values)) throw new Error(`Prompt ${id}@${ref.version} needs {{${key}}}`);
+    return values[key];
+  });
+  return { text: rendered, ref };
+}
+
+/** Check a caller-supplied pin map (request body) up front so bad pins fail before any model call. */
+export function parsePromptVersions(raw: unknown): PromptVersions | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) throw new Error("promptVersions must be an object");
+  for (const [id, pin] of Object.entries(raw)) {
+    if (typeof pin !== "string") throw new Error(`promptVersions.${id} must be a string`);
+    getPrompt(id as PromptId, pin);
+  }
+  return raw as PromptVersions;
+}
+
+/** Every prompt's versions, for /health and debugging. */
+export function listPrompts(): PromptRef[] {
+  return Object.values(registry).flatMap((versions) => versions.map(({ text: _text, ...ref }) => ref));
+}
+
+/** Split `---\nversion: N\n---` front matter from the template and hash the template text. */
+function parse(id: PromptId, source: string): Template {
+  const m = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  const version = m?.[1].match(/^version:\s*(\S+)\s*$/m)?.[1];
+  if (!version) throw new Error(`Prompt ${id} has no \`version\` in its front matter`);
+  const text = source.slice(m![0].length).trim();
+  return { id, version, hash: fnv1a64(text), text };
+}
+
+/** 64-bit FNV-1a as hex: synchronous (unlike crypto.subtle) and stable across runtimes. */
+function fnv1a64(text: string): string {
+  let h = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(text)) {
+    h ^= BigInt(byte);
+    h = (h * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return h.toString(16).padStart(16, "0");
+}
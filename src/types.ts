@@ -1,15 +1,54 @@
+import type { IR } from "./types/ir";
+import type { FakeFixture } from "./llm/types";
+import type { Budget, UsageReport } from "./llm/usage";
+import type { PromptRef, PromptVersions } from "./prompts";
+import type { CollisionPolicy } from "./utils/github";
+import type { DeploymentRegistry } from "./utils/deployments";
+
 export interface Env {
   // Required
   GITHUB_TOKEN?: string;
   GITHUB_ORG?: string;
+  // GitHub App auth (preferred over GITHUB_TOKEN): numeric app id + PEM private key
+  GITHUB_APP_ID?: string;
+  GITHUB_APP_PRIVATE_KEY?: string;
   CLOUDFLARE_API_TOKEN?: string;
   CLOUDFLARE_ACCOUNT_ID?: string;
+  // Optional: token with "Account API Tokens: Edit"; mints a deploy token per generated repo
+  CLOUDFLARE_ADMIN_TOKEN?: string;
+  // Optional: Cloudflare API base URL (tests point this at a local stand-in)
+  CLOUDFLARE_API_URL?: string;
 
   // Direct OpenAI usage (no external agent)
   OPENAI_API_KEY?: string;
   OPENAI_MODEL?: string;
+
+  // Model provider selection (see src/llm): "openai" (default) | "chat" | "fake"
+  LLM_PROVIDER?: string;
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+  LLM_MODEL?: string;
+  LLM_FAKE_FIXTURES?: string | FakeFixture[];
+  LLM_PRICES?: string; // JSON price table, USD per 1M tokens
+  LLM_MAX_OUTPUT_TOKENS?: string;
+
   ORCHESTRATOR_URL?: string; // public URL; used by generated apps’ _worker.ts
 
+  // Dynamic Worker Loader; runs generated code in isolation for smoke tests
+  LOADER?: WorkerLoader;
+
+  // Deployment records (status, stage logs) behind GET /deployments/:id
+  DEPLOYMENTS?: DurableObjectNamespace<DeploymentRegistry>;
+  // Hours after its last deployment that the scheduled teardown removes a sandbox (default 72)
+  SANDBOX_TTL_HOURS?: string;
+  // Custom domains for sandbox Workers (Cloudflare for SaaS): the zone the hostnames are added to,
+  // and its fallback origin, which customers point their CNAME at
+  CUSTOM_HOSTNAME_ZONE_ID?: string;
+  CUSTOM_HOSTNAME_TARGET?: string;
+  // Encrypts app secrets set with PUT /apps/:name/env while they're stored in the DEPLOYMENTS
+  // registry: 32 random bytes, base64 (`openssl rand -base64 32`)
+  ENV_SECRETS_KEY?: string;
+
   // Build metadata
   GIT_REF?: string;
   GIT_SHA?: string;
@@ -21,6 +60,18 @@ export type MvpRequest = {
   idea?: string;
   ideaId?: string;
   thread?: ChatMsg[];
+  /** "single" (default): one-shot generation; "staged": runGenerationStages */
+  pipeline?: "single" | "staged";
+  /** staged only: deploy a sandbox once smoke tests pass */
+  deploy?: boolean;
+  /** stop the generation once it has used this many tokens / dollars */
+  budget?: Budget;
+  /** pin prompts by version or hash prefix, e.g. { "slot-file": "1" } */
+  promptVersions?: PromptVersions;
+  /** when the derived repo name is taken: "reuse-owned" (default), "suffix" or "fail" */
+  onCollision?: CollisionPolicy;
+  /** GitHub org or user to push to (default GITHUB_ORG); needs the GitHub App installed */
+  owner?: string;
   branding?: {
     name?: string;
     tagline?: string;
@@ -29,15 +80,28 @@ export type MvpRequest = {
 };
 
 export type MvpResult = {
-  ir: {
-    name: string;
-    app_type: "spa_api" | "spa" | "api";
-    pages?: string[];
-    api_routes?: Array<{ method: string; path: string }>;
-    notes?: string;
-  };
+  ir: IR;
   files: Record<string, string>;
-  smoke?: { passed: boolean; logs: string[] };
+  smoke?: { passed: boolean; skipped?: boolean; logs: string[] };
+  usage?: UsageReport;
+  prompts?: PromptRef[];
 };
 
-export type JsonValue = string | number | boolean | null | JsonValue[] | { [k: string]: JsonValue };
\ No newline at end of file
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [k: string]: JsonValue };
+
+/** Minimal shape of the Dynamic Worker Loader binding (not in @cloudflare/workers-types yet). */
+export interface WorkerLoader {
+  get(
+    id: string,
+    getCode: () => WorkerLoaderCode | Promise<WorkerLoaderCode>
+  ): { getEntrypoint(): { fetch(request: Request): Promise<Response> } };
+}
+
+export type WorkerLoaderCode = {
+  compatibilityDate: string;
+  mainModule: string;
+  modules: Record<string, string>;
+  env?: Record<string, unknown>;
+  /** null blocks all outbound fetch() from the loaded worker */
+  globalOutbound?: null;
+};
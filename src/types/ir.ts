@@ -1,11 +1,152 @@
+// The IR contract shared by the orchestrator, the Pages function (app/functions/api/mvp.ts)
+// and the UI. Bump IR_VERSION for any shape change and add a step to MIGRATIONS so stored
+// IRs from earlier generations keep loading.
+import type { JsonSchema } from "../utils/schema";
+
+export const IR_VERSION = 3;
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type AppType = "spa" | "spa_api" | "api" | "crud_d1" | "webhook";
+
 export interface IR {
-  app_type: "spa_api" | "crud_d1" | "webhook";
+  version: typeof IR_VERSION;
+  app_type: AppType;
   name: string;
   features?: string[];
-  api_routes: Array<{ path: string; method: "GET" | "POST" | "PUT" | "DELETE" }>;
+  notes?: string;
+  api_routes: Array<{ path: string; method: HttpMethod }>;
   pages: string[];
   bindings?: {
     D1?: Array<{ name: string; database?: string }>;
     KV?: Array<{ name: string }>;
   };
-}
\ No newline at end of file
+  /** Variables the app reads from `env` at runtime; values are set with PUT /apps/:name/env. */
+  env?: Array<{ name: string; secret?: boolean; required?: boolean; description?: string }>;
+}
+
+const HTTP_METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const BINDING_NAME = "^[A-Z][A-Z0-9_]*$";
+
+export const IR_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["version", "app_type", "name", "api_routes", "pages"],
+  properties: {
+    version: { type: "integer", enum: [IR_VERSION] },
+    app_type: { type: "string", enum: ["spa", "spa_api", "api", "crud_d1", "webhook"] },
+    name: { type: "string", minLength: 1, maxLength: 80 },
+    features: { type: "array", items: { type: "string", minLength: 1 } },
+    notes: { type: "string" },
+    api_routes: {
+      type: "array",
+      maxItems: 30,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["path", "method"],
+        properties: {
+          path: {
+            type: "string",
+            pattern: "^/api(/[A-Za-z0-9_.:-]+)*$",
+            description: "Must start with /api; use :param for path parameters"
+          },
+          method: { type: "string", enum: HTTP_METHODS }
+        }
+      }
+    },
+    pages: {
+      type: "array",
+      minItems: 1,
+      maxItems: 20,
+      items: {
+        type: "string",
+        pattern: "^/([a-z0-9-]+(/[a-z0-9-]+)*)?$",
+        description: "Absolute lowercase path, e.g. / or /settings"
+      }
+    },
+    bindings: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        D1: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["name"],
+            properties: {
+              name: { type: "string", pattern: BINDING_NAME },
+              database: { type: "string", minLength: 1 }
+            }
+          }
+        },
+        KV: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["name"],
+            properties: { name: { type: "string", pattern: BINDING_NAME } }
+          }
+        }
+      }
+    },
+    env: {
+      type: "array",
+      maxItems: 30,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["name"],
+        properties: {
+          name: { type: "string", pattern: BINDING_NAME },
+          secret: { type: "boolean", description: "API keys, tokens and passwords" },
+          required: { type: "boolean", description: "Defaults to true; deploys fail while it's unset" },
+          description: { type: "string" }
+        }
+      }
+    }
+  }
+};
+
+/** One step per version: MIGRATIONS[n] turns a version-n IR into version n + 1. */
+const MIGRATIONS: Record<number, (ir: Record<string, any>) => Record<string, any>> = {
+  // v1 had no `version` field and two dialects: the orchestrator's (spa_api | crud_d1 | webhook,
+  // required pages/api_routes) and /api/mvp's (spa_api | spa | api, optional pages/api_routes,
+  // free-form methods and paths).
+  1: (ir) => {
+    const pages: string[] = Array.isArray(ir.pages) ? ir.pages.map(String) : [];
+    const routes: any[] = Array.isArray(ir.api_routes) ? ir.api_routes : [];
+    const { version: _version, ...rest } = ir;
+    return {
+      ...rest,
+      version: 2,
+      pages: pages.length ? pages.map((p) => (p.startsWith("/") ? p : `/${p}`).toLowerCase()) : ["/"],
+      api_routes: routes.map((r) => ({
+        path: String(r?.path || "").startsWith("/") ? String(r.path) : `/${r?.path || ""}`,
+        method: String(r?.method || "GET").toUpperCase()
+      }))
+    };
+  },
+  // v3 added the optional `env` declarations.
+  2: (ir) => ({ ...ir, version: 3 })
+};
+
+/**
+ * Bring an IR of any known version up to IR_VERSION. Call this wherever an IR is read
+ * (model output, stored metadata, API responses) before validating or using it.
+ * Non-objects and IRs newer than IR_VERSION are returned untouched so validation can report them.
+ */
+export function upgradeIR(raw: unknown): IR {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return raw as IR;
+  let ir = raw as Record<string, any>;
+  let version = typeof ir.version === "number" ? ir.version : 1;
+  while (version < IR_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No IR migration from version ${version}`);
+    ir = migrate(ir);
+    version = ir.version;
+  }
+  return ir as IR;
+}
@@ -1,3 +1,28 @@
+import type { HttpMethod } from "./ir";
+
+export type FileRole =
+  | "page" // HTML entry for one IR page
+  | "route" // one API route module (path + method)
+  | "worker" // _worker.js router that dispatches to route modules
+  | "lib" // shared code imported by pages or routes
+  | "asset" // static assets (CSS)
+  | "config" // wrangler.toml and friends
+  | "migration" // D1 SQL migrations
+  | "doc";
+
+export interface ManifestEntry {
+  path: string;
+  role: FileRole;
+  /** Why this file exists; shown to reviewers and fed to the slot prompt. */
+  purpose: string;
+  /** Paths of other manifest entries this file imports or needs to know about. */
+  dependsOn: string[];
+  /** Set for role "page". */
+  page?: string;
+  /** Set for role "route". */
+  route?: { path: string; method: HttpMethod };
+}
+
 export interface FileManifest {
-  files: string[];
-}
\ No newline at end of file
+  files: ManifestEntry[];
+}
@@ -0,0 +1,5 @@
+// Text modules bundled by wrangler (see [[rules]] in wrangler.toml)
+declare module "*.md" {
+  const content: string;
+  export default content;
+}
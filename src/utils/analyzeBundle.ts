@@ -0,0 +1,331 @@
+import { parse, type Node } from "acorn";
+
+// Static checks for a generated bundle. Nothing here executes generated code:
+// JS is parsed with acorn, JSON with JSON.parse, TOML and HTML with small line scanners.
+// acorn can't parse TypeScript, so .ts/.tsx files only get their imports resolved and an
+// `unchecked` diagnostic instead of passing as clean.
+
+type Files = Record<string, string>;
+
+export type Diagnostic = {
+  path: string;
+  line?: number;
+  /** `unchecked`: the file couldn't be checked at all; nothing for the model to repair. */
+  kind: "syntax" | "import" | "reference" | "unchecked";
+  message: string;
+};
+
+export type Reference = { specifier: string; line?: number; names: string[] };
+
+const JS_RE = /\.(m?js)$/;
+const TS_RE = /\.(ts|tsx)$/;
+
+export function analyzeBundle(files: Files): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const exportsCache = new Map<string, Set<string> | null>();
+  const exportsOf = (path: string) => {
+    if (!exportsCache.has(path)) exportsCache.set(path, JS_RE.test(path) ? moduleExports(files[path]) : null);
+    return exportsCache.get(path)!;
+  };
+
+  for (const [path, content] of Object.entries(files)) {
+    const add = (d: Omit<Diagnostic, "path">) => diagnostics.push({ path, ...d });
+
+    if (path.endsWith(".json")) {
+      try {
+        JSON.parse(content);
+      } catch (err: any) {
+        add({ kind: "syntax", message: `invalid JSON: ${err?.message || err}` });
+      }
+      continue;
+    }
+    if (path.endsWith(".toml")) {
+      checkToml(content).forEach(add);
+      continue;
+    }
+
+    const isHtml = path.endsWith(".html");
+    if (!isHtml && !JS_RE.test(path) && !TS_RE.test(path)) continue;
+
+    if (JS_RE.test(path)) {
+      const err = syntaxError(content);
+      if (err) add({ kind: "syntax", ...err });
+    }
+    if (TS_RE.test(path)) {
+      add({ kind: "unchecked", message: "TypeScript isn't syntax-checked; only its imports were resolved" });
+    }
+    if (isHtml) {
+      inlineModules(content).forEach(({ code, line }) => {
+        const err = syntaxError(code);
+        if (err) add({ kind: "syntax", line: line + (err.line ?? 1) - 1, message: `inline script: ${err.message}` });
+      });
+    }
+
+    for (const ref of referencesOf(path, content)) {
+      if (isExternal(ref.specifier)) continue;
+      const kind = isHtml ? "reference" : "import";
+      if (isBare(ref.specifier)) {
+        add({ kind, line: ref.line, message: `bare import "${ref.specifier}" cannot be resolved without a build step` });
+        continue;
+      }
+      const target = resolveReference(path, ref.specifier, files);
+      if (!target) {
+        add({ kind, line: ref.line, message: `"${ref.specifier}" does not exist in the bundle` });
+        continue;
+      }
+      const exported = exportsOf(target);
+      if (!exported) continue;
+      for (const name of ref.names) {
+        if (!exported.has(name)) {
+          add({ kind: "import", line: ref.line, message: `"${target}" has no export named "${name}"` });
+        }
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/** Everything a file loads: ES imports/re-exports, plus <script src> and stylesheet links for HTML. */
+export function referencesOf(path: string, content: string): Reference[] {
+  if (path.endsWith(".html")) {
+    const refs: Reference[] = [];
+    const tagRe = /<(script|link)\b[^>]*>/gi;
+    for (const m of content.matchAll(tagRe)) {
+      const tag = m[0];
+      const line = lineAt(content, m.index ?? 0);
+      const src = attr(tag, m[1].toLowerCase() === "script" ? "src" : "href");
+      if (!src) continue;
+      if (m[1].toLowerCase() === "link" && !/stylesheet|modulepreload/i.test(attr(tag, "rel") || "")) {
+        if (!src.endsWith(".css")) continue;
+      }
+      refs.push({ specifier: src, line, names: [] });
+    }
+    for (const { code, line } of inlineModules(content)) {
+      for (const r of jsImports(code)) refs.push({ ...r, line: line + (r.line ?? 1) - 1 });
+    }
+    return refs;
+  }
+  if (JS_RE.test(path)) return jsImports(content);
+  if (TS_RE.test(path)) {
+    // acorn can't parse TS; fall back to import specifiers only
+    return [...content.matchAll(/(?:import|export)[^;]*?from\s*["']([^"']+)["']/g)].map((m) => ({
+      specifier: m[1],
+      line: lineAt(content, m.index ?? 0),
+      names: []
+    }));
+  }
+  return [];
+}
+
+/** Map a specifier to a bundle path, or null if nothing in the bundle matches. */
+export function resolveReference(from: string, specifier: string, files: Files): string | null {
+  const clean = specifier.split(/[?#]/)[0];
+  const base = clean.startsWith("/") ? clean.slice(1) : joinRelative(dirname(from), clean);
+  const candidates = TS_RE.test(from) ? [base, `${base}.ts`, `${base}.tsx`, `${base}.js`] : [base];
+  if (!base || base.endsWith("/")) candidates.push(`${base}index.html`);
+  return candidates.find((c) => c in files) ?? null;
+}
+
+function jsImports(code: string): Reference[] {
+  const ast = tryParse(code);
+  if (!ast) return [];
+  const refs: Reference[] = [];
+  walk(ast, (node: any) => {
+    if (node.type === "ImportDeclaration") {
+      const names = node.specifiers
+        .filter((s: any) => s.type !== "ImportNamespaceSpecifier")
+        .map((s: any) => (s.type === "ImportDefaultSpecifier" ? "default" : nameOf(s.imported)));
+      refs.push({ specifier: node.source.value, line: node.loc?.start.line, names });
+    } else if (node.type === "ExportNamedDeclaration" && node.source) {
+      refs.push({
+        specifier: node.source.value,
+        line: node.loc?.start.line,
+        names: node.specifiers.map((s: any) => nameOf(s.local))
+      });
+    } else if (node.type === "ExportAllDeclaration") {
+      refs.push({ specifier: node.source.value, line: node.loc?.start.line, names: [] });
+    } else if (node.type === "ImportExpression" && node.source.type === "Literal") {
+      refs.push({ specifier: String(node.source.value), line: node.loc?.start.line, names: [] });
+    }
+  });
+  return refs;
+}
+
+/** Exported names of a module, or null when they can't be known (`export *`, parse error). */
+function moduleExports(code: string): Set<string> | null {
+  const ast = tryParse(code) as any;
+  if (!ast) return null;
+  const names = new Set<string>();
+  for (const node of ast.body) {
+    if (node.type === "ExportAllDeclaration") {
+      if (!node.exported) return null;
+      names.add(nameOf(node.exported));
+    } else if (node.type === "ExportDefaultDeclaration") {
+      names.add("default");
+    } else if (node.type === "ExportNamedDeclaration") {
+      const decl = node.declaration;
+      if (decl?.id) names.add(decl.id.name);
+      for (const d of decl?.declarations || []) {
+        if (d.id.type === "Identifier") names.add(d.id.name);
+        else return null; // destructured exports: don't guess
+      }
+      for (const s of node.specifiers) names.add(nameOf(s.exported));
+    }
+  }
+  return names;
+}
+
+function syntaxError(code: string): { line?: number; message: string } | null {
+  try {
+    parse(code, { ecmaVersion: "latest", sourceType: "module", locations: true });
+    return null;
+  } catch (err: any) {
+    return { line: err?.loc?.line, message: String(err?.message || err) };
+  }
+}
+
+function tryParse(code: string): Node | null {
+  try {
+    return parse(code, { ecmaVersion: "latest", sourceType: "module", locations: true });
+  } catch {
+    return null;
+  }
+}
+
+function walk(node: any, visit: (n: any) => void) {
+  if (!node || typeof node.type !== "string") return;
+  visit(node);
+  for (const value of Object.values(node)) {
+    if (Array.isArray(value)) value.forEach((v) => walk(v, visit));
+    else if (value && typeof value === "object") walk(value, visit);
+  }
+}
+
+function nameOf(n: any): string {
+  return n.type === "Identifier" ? n.name : String(n.value);
+}
+
+/** Inline `<script type="module">` bodies with the line they start on. */
+function inlineModules(html: string): Array<{ code: string; line: number }> {
+  const out: Array<{ code: string; line: number }> = [];
+  for (const m of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi)) {
+    if (attr(`<x ${m[1]}>`, "src") || !/type\s*=\s*["']?module/i.test(m[1])) continue;
+    const bodyStart = (m.index ?? 0) + m[0].indexOf(">") + 1;
+    out.push({ code: m[2], line: lineAt(html, bodyStart) });
+  }
+  return out;
+}
+
+function checkToml(content: string): Array<Omit<Diagnostic, "path">> {
+  const errors: Array<Omit<Diagnostic, "path">> = [];
+  let depth = 0; // open [ / { across lines
+  let multiline: string | null = null; // open """ or '''
+  const scalar = /^("(?:[^"\\]|\\.)*"|'[^']*'|true|false|[+-]?(inf|nan)|[+-]?(0x[0-9a-fA-F_]+|\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?)|\d{4}-\d{2}-\d{2}[\dT:.+\-Z ]*)$/;
+
+  content.split("\n").forEach((raw, i) => {
+    const line = i + 1;
+    if (multiline) {
+      if (raw.includes(multiline)) multiline = null;
+      return;
+    }
+    const text = stripTomlComment(raw).trim();
+    if (!text) return;
+
+    let value = text;
+    if (depth === 0) {
+      if (/^\[\[?\s*[A-Za-z0-9_\-."' ]+\s*\]\]?$/.test(text)) return;
+      const kv = text.match(/^([A-Za-z0-9_\-."' ]+?)\s*=\s*(.*)$/);
+      if (!kv) {
+        errors.push({ kind: "syntax", line, message: "expected `key = value` or a [table] header" });
+        return;
+      }
+      value = kv[2];
+      if (!value) {
+        errors.push({ kind: "syntax", line, message: `missing value for ${kv[1].trim()}` });
+        return;
+      }
+      for (const q of ['"""', "'''"]) {
+        if (value.startsWith(q) && value.indexOf(q, 3) < 0) {
+          multiline = q;
+          return;
+        }
+      }
+      if (!/^[[{]/.test(value) && !value.startsWith('"""') && !value.startsWith("'''") && !scalar.test(value)) {
+        errors.push({ kind: "syntax", line, message: `invalid value: ${value}` });
+        return;
+      }
+    }
+
+    const scan = scanBrackets(value);
+    if (scan.unterminated) errors.push({ kind: "syntax", line, message: "unterminated string" });
+    depth += scan.delta;
+    if (depth < 0) {
+      errors.push({ kind: "syntax", line, message: "unbalanced closing bracket" });
+      depth = 0;
+    }
+  });
+
+  if (multiline) errors.push({ kind: "syntax", message: `unterminated ${multiline} string` });
+  if (depth > 0) errors.push({ kind: "syntax", message: "unclosed array or inline table" });
+  return errors;
+}
+
+function scanBrackets(s: string): { delta: number; unterminated: boolean } {
+  let delta = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === "[" || c === "{") delta++;
+    else if (c === "]" || c === "}") delta--;
+  }
+  return { delta, unterminated: quote !== null };
+}
+
+function stripTomlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === "#") return line.slice(0, i);
+  }
+  return line;
+}
+
+function attr(tag: string, name: string): string | null {
+  const m = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return m ? (m[1] ?? m[2] ?? m[3]) : null;
+}
+
+/** URLs and runtime built-ins (`cloudflare:`, `node:`) aren't part of the bundle. */
+function isExternal(spec: string): boolean {
+  return /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(spec);
+}
+
+function isBare(spec: string): boolean {
+  return !/^(\.{1,2}\/|\/)/.test(spec);
+}
+
+function lineAt(text: string, index: number): number {
+  return text.slice(0, index).split("\n").length;
+}
+
+function dirname(path: string): string {
+  const i = path.lastIndexOf("/");
+  return i < 0 ? "" : path.slice(0, i);
+}
+
+function joinRelative(dir: string, rel: string): string {
+  const out = dir ? dir.split("/") : [];
+  for (const seg of rel.split("/")) {
+    if (seg === "..") out.pop();
+    else if (seg && seg !== ".") out.push(seg);
+  }
+  return out.join("/") + (rel.endsWith("/") ? "/" : "");
+}
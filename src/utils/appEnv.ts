@@ -0,0 +1,298 @@
+import type { Env } from "../types";
+import type { IR } from "@t/ir";
+import { getPagesProject, setPagesEnvVars, type PagesEnvVars, type WorkerBinding } from "./cloudflare";
+import { deploymentRegistry, type DeploymentKind } from "./deployments";
+import { json as log } from "./log";
+
+export type EnvEnvironment = "production" | "preview";
+
+/** A variable the app's IR declares in `env`. */
+export type EnvDeclaration = NonNullable<IR["env"]>[number];
+
+/** One variable of one environment. Secrets are stored encrypted (`sealed`) and never returned. */
+export type EnvEntry = {
+  name: string;
+  environment: EnvEnvironment;
+  secret: boolean;
+  /** Plain variables only. */
+  value?: string;
+  /** Secrets only: AES-GCM under ENV_SECRETS_KEY, base64. */
+  sealed?: { iv: string; data: string };
+  /** `ir` when the app's IR declares the variable, `user` when it was only set through the API. */
+  origin: "user" | "ir";
+  updatedAt: string;
+};
+
+/** An app's variables, as saved in the DEPLOYMENTS registry (`env:<app>`). */
+export type AppEnv = {
+  /** Pages project or Worker script name. */
+  app: string;
+  /** From the IR of the app's latest deployment that had one. */
+  declared: EnvDeclaration[];
+  entries: EnvEntry[];
+  updatedAt: string;
+};
+
+/** PUT /apps/:name/env: values to set, `null` to delete one. */
+export type EnvUpdate = {
+  /** Both when omitted (a Worker only has production). */
+  environment?: EnvEnvironment;
+  variables?: Record<string, unknown>;
+  secrets?: Record<string, unknown>;
+};
+
+/** Thrown for an update that can't be applied or a deploy that's missing variables. */
+export class EnvError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly missing: string[] = []
+  ) {
+    super(message);
+    this.name = "EnvError";
+  }
+}
+
+const ENVIRONMENTS: EnvEnvironment[] = ["production", "preview"];
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+/** Binding names the deploys use themselves. */
+const RESERVED_NAMES = ["ASSETS"];
+/** Cloudflare's limit for one variable or secret. */
+const MAX_VALUE_BYTES = 5 * 1024;
+/** Per environment, leaving room for D1 and KV under the Workers binding limit. */
+const MAX_ENTRIES = 64;
+
+/**
+ * Set or delete variables and secrets of `app`. Plain values are stored as given; secret values
+ * are encrypted with ENV_SECRETS_KEY. For a Pages project that exists they're also set on the
+ * project right away, so any later deployment has them; Workers get them with their next upload.
+ * A variable the app's IR declares keeps origin `ir`.
+ */
+export async function updateAppEnv(
+  env: Env,
+  app: string,
+  kind: DeploymentKind | undefined,
+  update: EnvUpdate
+): Promise<AppEnv> {
+  const registry = deploymentRegistry(env);
+  if (!registry) throw new Error("Missing binding: DEPLOYMENTS");
+  const { environment, variables = {}, secrets = {} } = update;
+  if (environment !== undefined && !ENVIRONMENTS.includes(environment)) {
+    throw new EnvError("environment must be production or preview", 400);
+  }
+  if (kind === "worker" && environment === "preview") {
+    throw new EnvError(`${app} is a Worker, which has no preview environment`, 400);
+  }
+  if (typeof variables !== "object" || typeof secrets !== "object" || !variables || !secrets) {
+    throw new EnvError("variables and secrets must be objects", 400);
+  }
+  const requested: Array<[string, unknown, boolean]> = [
+    ...Object.entries(variables).map(([name, value]): [string, unknown, boolean] => [name, value, false]),
+    ...Object.entries(secrets).map(([name, value]): [string, unknown, boolean] => [name, value, true])
+  ];
+  if (!requested.length) throw new EnvError("variables or secrets is required", 400);
+  const changes: Array<[string, string | null, boolean]> = [];
+  for (const [name, value, secret] of requested) {
+    if (!NAME.test(name) || RESERVED_NAMES.includes(name)) {
+      throw new EnvError(`${name} is not a valid variable name`, 400);
+    }
+    if (name in variables && name in secrets) {
+      throw new EnvError(`${name} is both a variable and a secret`, 400);
+    }
+    if (value !== null && typeof value !== "string") {
+      throw new EnvError(`${name} must be a string, or null to delete it`, 400);
+    }
+    if (value && new TextEncoder().encode(value).length > MAX_VALUE_BYTES) {
+      throw new EnvError(`${name} is longer than ${MAX_VALUE_BYTES} bytes`, 400);
+    }
+    changes.push([name, value, secret]);
+  }
+
+  const current = (await registry.getEnv(app)) || emptyEnv(app);
+  const declared = new Set(current.declared.map((d) => d.name));
+  const environments: EnvEnvironment[] = environment
+    ? [environment]
+    : kind === "worker"
+      ? ["production"]
+      : ENVIRONMENTS;
+  const at = new Date().toISOString();
+  const pages: Record<EnvEnvironment, PagesEnvVars> = { production: {}, preview: {} };
+  let entries = current.entries;
+  for (const [name, value, secret] of changes) {
+    for (const target of environments) {
+      entries = entries.filter((e) => e.name !== name || e.environment !== target);
+      if (value === null) {
+        pages[target][name] = null;
+        continue;
+      }
+      entries.push({
+        name,
+        environment: target,
+        secret,
+        ...(secret ? { sealed: await seal(env, `${app}/${target}/${name}`, value) } : { value }),
+        origin: declared.has(name) ? "ir" : "user",
+        updatedAt: at
+      });
+      pages[target][name] = { type: secret ? "secret_text" : "plain_text", value };
+    }
+  }
+  for (const target of environments) {
+    if (entries.filter((e) => e.environment === target).length > MAX_ENTRIES) {
+      throw new EnvError(`${app} can have at most ${MAX_ENTRIES} variables per environment`, 400);
+    }
+  }
+
+  if (kind === "pages" && (await getPagesProject(env, app))) {
+    await setPagesEnvVars(env, app, Object.fromEntries(environments.map((e) => [e, pages[e]])));
+  }
+  const next: AppEnv = { ...current, entries: sortEntries(entries), updatedAt: at };
+  await registry.putEnv(next);
+  log("app env updated", { app, environment: environment || "all", names: changes.map(([name]) => name) });
+  return next;
+}
+
+/**
+ * Before deploying `app` to `environment`: record the variables its IR declares (the IR is
+ * optional; without one the last declarations stand) and throw a 400 EnvError listing the
+ * required ones that have no value yet. Returns the app's variables for the deploy.
+ */
+export async function requireAppEnv(
+  env: Env,
+  app: string,
+  ir: IR | undefined,
+  environment: EnvEnvironment
+): Promise<AppEnv> {
+  const registry = deploymentRegistry(env);
+  if (!registry) {
+    const missing = (ir?.env || []).filter((d) => d.required !== false).map((d) => d.name);
+    if (missing.length) {
+      throw new EnvError("Environment variables need deployment tracking (DEPLOYMENTS binding)", 501, missing);
+    }
+    return emptyEnv(app);
+  }
+
+  const stored = await registry.getEnv(app);
+  let appEnv = stored || emptyEnv(app);
+  if (ir && (stored || ir.env?.length)) {
+    const declared = ir.env || [];
+    const names = new Set(declared.map((d) => d.name));
+    appEnv = {
+      ...appEnv,
+      declared,
+      entries: appEnv.entries.map((e) => ({ ...e, origin: names.has(e.name) ? "ir" : "user" })),
+      updatedAt: new Date().toISOString()
+    };
+    await registry.putEnv(appEnv);
+  }
+
+  const missing = missingEnv(appEnv, environment);
+  if (missing.length) {
+    throw new EnvError(
+      `Missing environment variables for ${app} (${environment}): ${missing.join(", ")}; ` +
+        `set them with PUT /apps/${app}/env`,
+      400,
+      missing
+    );
+  }
+  return appEnv;
+}
+
+/** Names the IR requires (`required` defaults to true) that `environment` has no value for. */
+export function missingEnv(appEnv: AppEnv, environment: EnvEnvironment): string[] {
+  return appEnv.declared
+    .filter((d) => d.required !== false)
+    .filter((d) => !appEnv.entries.some((e) => e.name === d.name && e.environment === environment))
+    .map((d) => d.name);
+}
+
+/** What GET /apps/:name/env shows: entries without secret values, and what's still missing. */
+export function describeAppEnv(appEnv: AppEnv) {
+  return {
+    app: appEnv.app,
+    entries: appEnv.entries.map(({ sealed: _sealed, ...entry }) => entry),
+    declared: appEnv.declared,
+    missing: { production: missingEnv(appEnv, "production"), preview: missingEnv(appEnv, "preview") }
+  };
+}
+
+/** Both environments' variables as Pages project `env_vars`, secrets decrypted. */
+export async function pagesEnvVars(env: Env, appEnv: AppEnv): Promise<Record<EnvEnvironment, PagesEnvVars>> {
+  const vars: Record<EnvEnvironment, PagesEnvVars> = { production: {}, preview: {} };
+  for (const entry of appEnv.entries) {
+    const value = await entryValue(env, appEnv.app, entry);
+    vars[entry.environment][entry.name] = { type: entry.secret ? "secret_text" : "plain_text", value };
+  }
+  return vars;
+}
+
+/** Production variables as Worker bindings, secrets decrypted. */
+export async function workerEnvBindings(env: Env, appEnv: AppEnv): Promise<WorkerBinding[]> {
+  const bindings: WorkerBinding[] = [];
+  for (const entry of appEnv.entries.filter((e) => e.environment === "production")) {
+    const text = await entryValue(env, appEnv.app, entry);
+    bindings.push({ type: entry.secret ? "secret_text" : "plain_text", name: entry.name, text });
+  }
+  return bindings;
+}
+
+export function emptyEnv(app: string): AppEnv {
+  return { app, declared: [], entries: [], updatedAt: new Date().toISOString() };
+}
+
+function sortEntries(entries: EnvEntry[]): EnvEntry[] {
+  return [...entries].sort(
+    (a, b) => a.name.localeCompare(b.name) || a.environment.localeCompare(b.environment)
+  );
+}
+
+async function entryValue(env: Env, app: string, entry: EnvEntry): Promise<string> {
+  if (!entry.secret) return entry.value ?? "";
+  try {
+    return await unseal(env, `${app}/${entry.environment}/${entry.name}`, entry.sealed!);
+  } catch (err) {
+    if (err instanceof EnvError) throw err;
+    throw new Error(`Can't decrypt secret ${entry.name} of ${app} (${entry.environment}); set it again`);
+  }
+}
+
+/** AES-GCM with the variable's slot as additional data, so a sealed value only opens where it was set. */
+async function seal(env: Env, slot: string, value: string): Promise<{ iv: string; data: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(slot) },
+    await secretsKey(env),
+    new TextEncoder().encode(value)
+  );
+  return { iv: toB64(iv), data: toB64(new Uint8Array(data)) };
+}
+
+async function unseal(env: Env, slot: string, sealed: { iv: string; data: string }): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromB64(sealed.iv), additionalData: new TextEncoder().encode(slot) },
+    await secretsKey(env),
+    fromB64(sealed.data)
+  );
+  return new TextDecoder().decode(data);
+}
+
+async function secretsKey(env: Env): Promise<CryptoKey> {
+  if (!env.ENV_SECRETS_KEY) throw new EnvError("Secrets are not configured (ENV_SECRETS_KEY)", 501);
+  let raw = new Uint8Array();
+  try {
+    raw = fromB64(env.ENV_SECRETS_KEY);
+  } catch {
+    // Not base64; reported below.
+  }
+  if (raw.length !== 32) throw new EnvError("ENV_SECRETS_KEY must be 32 bytes, base64", 501);
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+function fromB64(s: string) {
+  return Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+}
+
+function toB64(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
@@ -1,8 +1,26 @@
 import type { Env } from "../types";
 import { json } from "./log";
+import { mapLimit } from "./async";
+import { contentTypeFor, isPrivateFile } from "./fs-utils";
 
 const CF_API = "https://api.cloudflare.com/client/v4";
 
+/** Compatibility date for uploaded sandbox Workers (same as the smoke-test sandbox). */
+export const DEFAULT_COMPATIBILITY_DATE = "2025-08-01";
+/** Parallel asset bucket uploads; Cloudflare already groups files into a few buckets. */
+const ASSET_BUCKET_CONCURRENCY = 3;
+/** Pages asset uploads: files per request, and a base64 size cap well under the request limit. */
+const PAGES_UPLOAD_BATCH_FILES = 100;
+const PAGES_UPLOAD_BATCH_BYTES = 20 * 1024 * 1024;
+/** Pages reads these as their own form parts of the deployment, not as assets. */
+const PAGES_CONFIG_FILES = ["_headers", "_redirects", "_routes.json"];
+/** Largest page the KV namespace list returns. */
+const KV_NAMESPACES_PER_PAGE = 100;
+
+function cfApi(env: Env): string {
+  return (env.CLOUDFLARE_API_URL || CF_API).replace(/\/+$/, "");
+}
+
 export function cfHeaders(env: Env): HeadersInit {
   if (!env.CLOUDFLARE_API_TOKEN) throw new Error("Missing env: CLOUDFLARE_API_TOKEN");
   return {
@@ -11,15 +29,23 @@ export function cfHeaders(env: Env): HeadersInit {
   };
 }
 
-export async function ensurePagesProject(env: Env, projectName: string) {
+/** Variables of a Pages project environment, by name; in a PATCH, `null` deletes one. */
+export type PagesEnvVars = Record<string, { type: "plain_text" | "secret_text"; value: string } | null>;
+
+/** Get or create the Direct Upload project; a new project starts with `vars` (PUT /apps/:name/env). */
+export async function ensurePagesProject(
+  env: Env,
+  projectName: string,
+  vars: { production?: PagesEnvVars; preview?: PagesEnvVars } = {}
+) {
   if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
   const headers = cfHeaders(env);
 
   let res = await fetch(
-    `${CF_API}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`,
+    `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`,
     { headers }
   );
-  if (res.status === 200) return (await res.json()).result;
+  if (res.status === 200) return (await res.json<{ result: any }>()).result;
 
   if (res.status !== 404) {
     json("ensurePagesProject unexpected", { status: res.status, body: await res.text() });
@@ -27,7 +53,7 @@ export async function ensurePagesProject(env: Env, projectName: string) {
   }
 
   // Create a Direct Upload project (GitHub deploy handled by workflow later)
-  res = await fetch(`${CF_API}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects`, {
+  res = await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects`, {
     method: "POST",
     headers,
     body: JSON.stringify({
@@ -35,22 +61,781 @@ export async function ensurePagesProject(env: Env, projectName: string) {
       production_branch: "main",
       build_config: { build_command: "", destination_dir: "dist" },
       deployment_configs: {
-        production: { environment_variables: {} },
-        preview: { environment_variables: {} }
+        production: { env_vars: vars.production || {} },
+        preview: { env_vars: vars.preview || {} }
       }
     })
   });
 
   if (!res.ok) throw new Error(`Failed to create Pages project: ${res.status} ${await res.text()}`);
-  return (await res.json()).result;
+  return (await res.json<{ result: any }>()).result;
 }
 
 export async function getPagesProject(env: Env, projectName: string) {
   if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
   const headers = cfHeaders(env);
   const res = await fetch(
-    `${CF_API}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`,
+    `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`,
     { headers }
   );
-  return res.ok ? (await res.json()).result : null;
-}
\ No newline at end of file
+  return res.ok ? (await res.json<{ result: any }>()).result : null;
+}
+
+/** Permission groups a per-app deploy token gets: enough for `wrangler pages deploy`. */
+const DEPLOY_TOKEN_PERMISSIONS = ["Pages Write"];
+
+/**
+ * Mint an account-owned API token for one generated app's deploy workflow, using
+ * CLOUDFLARE_ADMIN_TOKEN (needs "Account API Tokens: Edit"). Pages permissions can't be limited
+ * to one project, so the token covers the account's Pages; being per app, it can be revoked
+ * without touching other apps or the shared CLOUDFLARE_API_TOKEN.
+ */
+export async function createDeployToken(env: Env, appName: string): Promise<{ id: string; value: string }> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  if (!env.CLOUDFLARE_ADMIN_TOKEN) throw new Error("Missing env: CLOUDFLARE_ADMIN_TOKEN");
+  const base = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/tokens`;
+  const headers = { Authorization: `Bearer ${env.CLOUDFLARE_ADMIN_TOKEN}`, "Content-Type": "application/json" };
+
+  let res = await fetch(`${base}/permission_groups`, { headers });
+  if (!res.ok) throw new Error(`Cloudflare permission groups failed: ${res.status} ${await res.text()}`);
+  const groups = ((await res.json()) as { result: Array<{ id: string; name: string }> }).result;
+  const permissionGroups = DEPLOY_TOKEN_PERMISSIONS.map((name) => {
+    const group = groups.find((g) => g.name === name);
+    if (!group) throw new Error(`Cloudflare permission group not found: ${name}`);
+    return { id: group.id };
+  });
+
+  res = await fetch(base, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      name: `launchwing-deploy-${appName}`,
+      policies: [
+        {
+          effect: "allow",
+          resources: { [`com.cloudflare.api.account.${env.CLOUDFLARE_ACCOUNT_ID}`]: "*" },
+          permission_groups: permissionGroups
+        }
+      ]
+    })
+  });
+  if (!res.ok) throw new Error(`Failed to create Cloudflare deploy token: ${res.status} ${await res.text()}`);
+  const { id, value } = ((await res.json()) as { result: { id: string; value: string } }).result;
+  json("Cloudflare deploy token created", { appName, id });
+  return { id, value };
+}
+
+export type PagesDeployment = {
+  id: string;
+  /** Unique URL of this deployment (https://<id>.<project>.pages.dev). */
+  url: string;
+  environment: "production" | "preview";
+  assets: number;
+  /** Assets Cloudflare didn't have yet; the rest were already stored under the same hash. */
+  uploaded: number;
+  /** True when `_worker.js` was deployed (Advanced Mode). */
+  worker: boolean;
+  /** Bundle paths that can't be deployed as they are (sources needing a build, repo metadata). */
+  skipped: string[];
+};
+
+/**
+ * Deploy `files` to an existing Pages project with Direct Upload: hash every asset, upload the
+ * ones Cloudflare is missing with the project's upload token, then create a deployment from
+ * the path → hash manifest. `_worker.js` goes up as the Advanced Mode worker, and `_headers`,
+ * `_redirects` and `_routes.json` as deployment config. Without `branch` the deployment goes to
+ * the project's production branch.
+ */
+export async function deployPagesBundle(
+  env: Env,
+  projectName: string,
+  files: Record<string, string>,
+  opts: { branch?: string; commitMessage?: string } = {}
+): Promise<PagesDeployment> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const project = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`;
+
+  const assets: Array<{ path: string; hash: string; content: string; type: string }> = [];
+  const config: Array<[string, string]> = [];
+  const skipped: string[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    if (path === "_worker.js") continue;
+    if (PAGES_CONFIG_FILES.includes(path)) config.push([path, content]);
+    // functions/ and worker/ need wrangler's build; the rest is repo metadata.
+    else if (isPrivateFile(path)) skipped.push(path);
+    else {
+      // The extension is part of the hash: Pages stores one content type per hash.
+      const hash = await assetHash(content + path.slice(path.lastIndexOf(".")));
+      assets.push({ path, hash, content, type: contentTypeFor(path) });
+    }
+  }
+  if (!assets.length && !files["_worker.js"]) {
+    throw new Error("Nothing to deploy: the bundle has no assets or _worker.js");
+  }
+
+  const { jwt } = await cfResult<{ jwt: string }>(
+    await fetch(`${project}/upload-token`, { headers: cfHeaders(env) }),
+    `get upload token for ${projectName}`
+  );
+  const withJwt = { Authorization: `Bearer ${jwt}`, "Content-Type": "application/json" };
+  const hashes = [...new Set(assets.map((a) => a.hash))];
+
+  const missing = new Set(
+    await cfResult<string[]>(
+      await fetch(`${cfApi(env)}/pages/assets/check-missing`, {
+        method: "POST",
+        headers: withJwt,
+        body: JSON.stringify({ hashes })
+      }),
+      "check Pages assets"
+    )
+  );
+  const toUpload = [...new Map(assets.filter((a) => missing.has(a.hash)).map((a) => [a.hash, a])).values()];
+  await mapLimit(pagesBatches(toUpload), ASSET_BUCKET_CONCURRENCY, async (batch) =>
+    cfResult(
+      await fetch(`${cfApi(env)}/pages/assets/upload`, {
+        method: "POST",
+        headers: withJwt,
+        body: JSON.stringify(
+          batch.map((a) => ({
+            key: a.hash,
+            value: toBase64(new TextEncoder().encode(a.content)),
+            metadata: { contentType: a.type },
+            base64: true
+          }))
+        )
+      }),
+      `upload Pages assets for ${projectName}`
+    )
+  );
+  if (hashes.length) {
+    await cfResult(
+      await fetch(`${cfApi(env)}/pages/assets/upsert-hashes`, {
+        method: "POST",
+        headers: withJwt,
+        body: JSON.stringify({ hashes })
+      }),
+      "register Pages asset hashes"
+    );
+  }
+
+  const form = new FormData();
+  form.append("manifest", JSON.stringify(Object.fromEntries(assets.map((a) => [`/${a.path}`, a.hash]))));
+  if (opts.branch) form.append("branch", opts.branch);
+  if (opts.commitMessage) form.append("commit_message", opts.commitMessage);
+  if (files["_worker.js"]) {
+    const worker = new File([files["_worker.js"]], "_worker.js", { type: "application/javascript+module" });
+    form.append("_worker.js", worker);
+  }
+  for (const [path, content] of config) form.append(path, new File([content], path));
+
+  const deployment = await cfResult<{ id: string; url: string; environment: PagesDeployment["environment"] }>(
+    await fetch(`${project}/deployments`, { method: "POST", headers: authHeader(env), body: form }),
+    `create Pages deployment for ${projectName}`
+  );
+  json("Pages deployment created", {
+    projectName,
+    id: deployment.id,
+    assets: assets.length,
+    uploaded: toUpload.length
+  });
+  return {
+    id: deployment.id,
+    url: deployment.url,
+    environment: deployment.environment,
+    assets: assets.length,
+    uploaded: toUpload.length,
+    worker: !!files["_worker.js"],
+    skipped
+  };
+}
+
+/** One step of a Pages deployment as Cloudflare reports it (`queued`, `initialize`, … `deploy`). */
+export type PagesStage = {
+  name: string;
+  status: "idle" | "active" | "success" | "failure" | "canceled" | "skipped";
+  started_on: string | null;
+  ended_on: string | null;
+};
+
+export type PagesDeploymentStatus = {
+  id: string;
+  url: string;
+  environment: PagesDeployment["environment"];
+  latest_stage: PagesStage;
+  stages: PagesStage[];
+};
+
+export async function getPagesDeployment(
+  env: Env,
+  projectName: string,
+  deploymentId: string
+): Promise<PagesDeploymentStatus> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const project = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`;
+  return cfResult(
+    await fetch(`${project}/deployments/${deploymentId}`, { headers: cfHeaders(env) }),
+    `get Pages deployment ${deploymentId}`
+  );
+}
+
+/** The deployment's build log, oldest line first. */
+export async function getPagesDeploymentLogs(
+  env: Env,
+  projectName: string,
+  deploymentId: string
+): Promise<Array<{ ts: string; line: string }>> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const project = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`;
+  const logs = await cfResult<{ data?: Array<{ ts: string; line: string }> }>(
+    await fetch(`${project}/deployments/${deploymentId}/history/logs`, { headers: cfHeaders(env) }),
+    `get Pages deployment logs ${deploymentId}`
+  );
+  return logs.data || [];
+}
+
+/**
+ * Make an earlier production deployment of the project live again. Cloudflare only rolls back
+ * to successful production deployments; anything else is rejected with its error.
+ */
+export async function rollbackPagesDeployment(
+  env: Env,
+  projectName: string,
+  deploymentId: string
+): Promise<{ id: string; url: string }> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const project = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`;
+  return cfResult(
+    await fetch(`${project}/deployments/${deploymentId}/rollback`, {
+      method: "POST",
+      headers: cfHeaders(env)
+    }),
+    `roll back ${projectName} to Pages deployment ${deploymentId}`
+  );
+}
+
+/** Delete a Pages project with all its deployments. False when it was already gone. */
+export async function deletePagesProject(env: Env, projectName: string): Promise<boolean> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const res = await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`, {
+    method: "DELETE",
+    headers: cfHeaders(env)
+  });
+  if (res.status === 404) return false;
+  await cfResult(res, `delete Pages project ${projectName}`);
+  return true;
+}
+
+/**
+ * Set the D1 and KV bindings of a Pages project's production and preview environments
+ * (binding name → database id / namespace id). Deployments created afterwards get them.
+ */
+export async function setPagesBindings(
+  env: Env,
+  projectName: string,
+  bindings: { d1: Record<string, string>; kv: Record<string, string> }
+) {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const config = {
+    d1_databases: Object.fromEntries(Object.entries(bindings.d1).map(([name, id]) => [name, { id }])),
+    kv_namespaces: Object.fromEntries(
+      Object.entries(bindings.kv).map(([name, id]) => [name, { namespace_id: id }])
+    )
+  };
+  await cfResult(
+    await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`, {
+      method: "PATCH",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ deployment_configs: { production: config, preview: config } })
+    }),
+    `set bindings of Pages project ${projectName}`
+  );
+}
+
+/**
+ * Set (or, with `null`, delete) variables of a Pages project. Cloudflare merges them into each
+ * environment's existing ones; they apply to deployments made after the change.
+ */
+export async function setPagesEnvVars(
+  env: Env,
+  projectName: string,
+  vars: { production?: PagesEnvVars; preview?: PagesEnvVars }
+) {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const configs = Object.fromEntries(Object.entries(vars).map(([name, v]) => [name, { env_vars: v }]));
+  await cfResult(
+    await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`, {
+      method: "PATCH",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ deployment_configs: configs })
+    }),
+    `set variables of Pages project ${projectName}`
+  );
+}
+
+/** A custom domain on a Pages project, as Cloudflare reports it. */
+export type PagesDomain = {
+  id: string;
+  name: string;
+  status: "initializing" | "pending" | "active" | "deactivated" | "blocked" | "error";
+  /** Whether the hostname points at the project (its CNAME). */
+  verification_data?: { status: string; error_message?: string };
+  /** Certificate validation; with method `txt` the user adds `txt_name` → `txt_value`. */
+  validation_data?: {
+    status: string;
+    method: string;
+    txt_name?: string;
+    txt_value?: string;
+    error_message?: string;
+  };
+};
+
+/** The project's custom domain `hostname`, or null. */
+export async function getPagesDomain(
+  env: Env,
+  projectName: string,
+  hostname: string
+): Promise<PagesDomain | null> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const project = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`;
+  const res = await fetch(`${project}/domains/${hostname}`, { headers: cfHeaders(env) });
+  if (res.status === 404) return null;
+  return cfResult(res, `get domain ${hostname} of ${projectName}`);
+}
+
+/** Add `hostname` to the project; Cloudflare then verifies it and issues its certificate. */
+export async function addPagesDomain(env: Env, projectName: string, hostname: string): Promise<PagesDomain> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const project = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/pages/projects/${projectName}`;
+  return cfResult(
+    await fetch(`${project}/domains`, {
+      method: "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ name: hostname })
+    }),
+    `add domain ${hostname} to ${projectName}`
+  );
+}
+
+/** The D1 database called `name`, or null. */
+export async function findD1Database(env: Env, name: string): Promise<{ uuid: string; name: string } | null> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const base = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/d1/database`;
+  const found = await cfResult<Array<{ uuid: string; name: string }>>(
+    await fetch(`${base}?name=${encodeURIComponent(name)}`, { headers: cfHeaders(env) }),
+    `find D1 database ${name}`
+  );
+  // `name` filters by substring; only an exact match is ours.
+  return found.find((db) => db.name === name) ?? null;
+}
+
+export async function createD1Database(env: Env, name: string): Promise<{ uuid: string; name: string }> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  return cfResult(
+    await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/d1/database`, {
+      method: "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ name })
+    }),
+    `create D1 database ${name}`
+  );
+}
+
+/** Run `sql` (one or more statements) against a D1 database; returns each statement's rows. */
+export async function queryD1<T = Record<string, unknown>>(
+  env: Env,
+  databaseId: string,
+  sql: string,
+  params: unknown[] = []
+): Promise<T[][]> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const results = await cfResult<Array<{ results: T[] }>>(
+    await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/d1/database/${databaseId}/query`, {
+      method: "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ sql, params })
+    }),
+    `query D1 database ${databaseId}`
+  );
+  return results.map((r) => r.results || []);
+}
+
+export async function deleteD1Database(env: Env, databaseId: string): Promise<boolean> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const res = await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/d1/database/${databaseId}`, {
+    method: "DELETE",
+    headers: cfHeaders(env)
+  });
+  if (res.status === 404) return false;
+  await cfResult(res, `delete D1 database ${databaseId}`);
+  return true;
+}
+
+/** The KV namespace titled `title`, or null. The API can't filter by title, so this pages through. */
+export async function findKVNamespace(env: Env, title: string): Promise<{ id: string; title: string } | null> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const base = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/storage/kv/namespaces`;
+  for (let page = 1; ; page++) {
+    const namespaces = await cfResult<Array<{ id: string; title: string }>>(
+      await fetch(`${base}?per_page=${KV_NAMESPACES_PER_PAGE}&page=${page}`, { headers: cfHeaders(env) }),
+      "list KV namespaces"
+    );
+    const found = namespaces.find((ns) => ns.title === title);
+    if (found) return found;
+    if (namespaces.length < KV_NAMESPACES_PER_PAGE) return null;
+  }
+}
+
+export async function createKVNamespace(env: Env, title: string): Promise<{ id: string; title: string }> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  return cfResult(
+    await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/storage/kv/namespaces`, {
+      method: "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ title })
+    }),
+    `create KV namespace ${title}`
+  );
+}
+
+export async function deleteKVNamespace(env: Env, namespaceId: string): Promise<boolean> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const base = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/storage/kv/namespaces`;
+  const res = await fetch(`${base}/${namespaceId}`, { method: "DELETE", headers: cfHeaders(env) });
+  if (res.status === 404) return false;
+  await cfResult(res, `delete KV namespace ${namespaceId}`);
+  return true;
+}
+
+export type WorkerBinding =
+  | { type: "assets"; name: string }
+  | { type: "d1"; name: string; id: string }
+  | { type: "kv_namespace"; name: string; namespace_id: string }
+  | { type: "plain_text"; name: string; text: string }
+  | { type: "secret_text"; name: string; text: string };
+
+export type WorkerUpload = {
+  /** Module name → source; all are uploaded as ES modules. */
+  modules: Record<string, string>;
+  mainModule: string;
+  /** Static files by path (no leading slash), served before the Worker and bound as ASSETS. */
+  assets?: Record<string, string>;
+  bindings?: WorkerBinding[];
+  compatibilityDate?: string;
+  compatibilityFlags?: string[];
+};
+
+export type DeployResult = {
+  scriptName: string;
+  /** https://<script>.<account subdomain>.workers.dev */
+  url: string;
+  modules: string[];
+  assets: number;
+};
+
+// Per-isolate: an account's workers.dev subdomain doesn't change.
+const subdomains = new Map<string, string>();
+
+/**
+ * Upload (or replace) `scriptName` as a module Worker and enable it on workers.dev. Assets go
+ * first through the static-assets flow (upload session → missing-file buckets → completion
+ * token), then the script is PUT as multipart: a `metadata` part with the main module,
+ * compatibility settings, bindings and the assets token, plus one part per module.
+ */
+export async function uploadModuleWorker(
+  env: Env,
+  scriptName: string,
+  upload: WorkerUpload
+): Promise<DeployResult> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  if (!upload.modules[upload.mainModule]) {
+    throw new Error(`Main module ${upload.mainModule} is not in the upload`);
+  }
+  const scriptUrl = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/workers/scripts/${scriptName}`;
+  const assets = Object.entries(upload.assets || {});
+
+  const assetsJwt = assets.length ? await uploadAssets(env, scriptName, assets) : null;
+  const metadata = {
+    main_module: upload.mainModule,
+    compatibility_date: upload.compatibilityDate || DEFAULT_COMPATIBILITY_DATE,
+    compatibility_flags: upload.compatibilityFlags || [],
+    bindings: [...(upload.bindings || []), ...(assetsJwt ? [{ type: "assets", name: "ASSETS" }] : [])],
+    ...(assetsJwt
+      ? {
+          assets: {
+            jwt: assetsJwt,
+            // Generated apps are SPAs: unknown paths get index.html, like Pages does.
+            config: upload.assets?.["index.html"] ? { not_found_handling: "single-page-application" } : {}
+          }
+        }
+      : {})
+  };
+
+  const form = new FormData();
+  form.append("metadata", new Blob([JSON.stringify(metadata)], { type: "application/json" }));
+  for (const [name, source] of Object.entries(upload.modules)) {
+    form.append(name, new File([source], name, { type: "application/javascript+module" }));
+  }
+  const res = await fetch(scriptUrl, { method: "PUT", headers: authHeader(env), body: form });
+  await cfResult(res, `upload Worker ${scriptName}`);
+
+  await cfResult(
+    await fetch(`${scriptUrl}/subdomain`, {
+      method: "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ enabled: true, previews_enabled: false })
+    }),
+    `enable workers.dev for ${scriptName}`
+  );
+
+  const url = `https://${scriptName}.${await workersSubdomain(env)}.workers.dev`;
+  json("Worker deployed", {
+    scriptName,
+    url,
+    modules: Object.keys(upload.modules).length,
+    assets: assets.length
+  });
+  return { scriptName, url, modules: Object.keys(upload.modules), assets: assets.length };
+}
+
+/** Whether the account has a Worker script called `scriptName`. */
+export async function workerScriptExists(env: Env, scriptName: string): Promise<boolean> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const res = await fetch(
+    `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/workers/scripts/${scriptName}/settings`,
+    { headers: authHeader(env) }
+  );
+  if (res.status === 404) return false;
+  await cfResult(res, `look up Worker ${scriptName}`);
+  return true;
+}
+
+/** Delete a Worker script (and its assets). False when it was already gone. */
+export async function deleteWorkerScript(env: Env, scriptName: string): Promise<boolean> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) throw new Error("Missing env: CLOUDFLARE_ACCOUNT_ID");
+  const res = await fetch(`${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}/workers/scripts/${scriptName}`, {
+    method: "DELETE",
+    headers: authHeader(env)
+  });
+  if (res.status === 404) return false;
+  await cfResult(res, `delete Worker ${scriptName}`);
+  return true;
+}
+
+/** A Cloudflare for SaaS custom hostname on the zone that fronts sandbox Workers. */
+export type CustomHostname = {
+  id: string;
+  hostname: string;
+  status: "pending" | "active" | "moved" | "deleted" | "blocked" | string;
+  /** TXT record proving the user controls the hostname. */
+  ownership_verification?: { type: string; name: string; value: string };
+  ssl: {
+    status: string;
+    method: string;
+    validation_records?: Array<{ txt_name?: string; txt_value?: string }>;
+    validation_errors?: Array<{ message: string }>;
+  };
+  verification_errors?: string[];
+};
+
+/** The zone's custom hostname `hostname`, or null. */
+export async function findCustomHostname(
+  env: Env,
+  zoneId: string,
+  hostname: string
+): Promise<CustomHostname | null> {
+  const found = await cfResult<CustomHostname[]>(
+    await fetch(`${cfApi(env)}/zones/${zoneId}/custom_hostnames?hostname=${encodeURIComponent(hostname)}`, {
+      headers: cfHeaders(env)
+    }),
+    `find custom hostname ${hostname}`
+  );
+  return found.find((ch) => ch.hostname === hostname) ?? null;
+}
+
+/** Add `hostname` to the zone, its certificate validated over TXT (works before the CNAME exists). */
+export async function createCustomHostname(
+  env: Env,
+  zoneId: string,
+  hostname: string
+): Promise<CustomHostname> {
+  return cfResult(
+    await fetch(`${cfApi(env)}/zones/${zoneId}/custom_hostnames`, {
+      method: "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ hostname, ssl: { method: "txt", type: "dv" } })
+    }),
+    `create custom hostname ${hostname}`
+  );
+}
+
+export async function getCustomHostname(env: Env, zoneId: string, id: string): Promise<CustomHostname> {
+  return cfResult(
+    await fetch(`${cfApi(env)}/zones/${zoneId}/custom_hostnames/${id}`, { headers: cfHeaders(env) }),
+    `get custom hostname ${id}`
+  );
+}
+
+export async function deleteCustomHostname(env: Env, zoneId: string, id: string): Promise<boolean> {
+  const res = await fetch(`${cfApi(env)}/zones/${zoneId}/custom_hostnames/${id}`, {
+    method: "DELETE",
+    headers: cfHeaders(env)
+  });
+  if (res.status === 404) return false;
+  await cfResult(res, `delete custom hostname ${id}`);
+  return true;
+}
+
+/** Route `pattern` on the zone to `scriptName`, reusing (and repointing) an existing route. */
+export async function ensureWorkerRoute(
+  env: Env,
+  zoneId: string,
+  pattern: string,
+  scriptName: string
+): Promise<{ id: string }> {
+  const base = `${cfApi(env)}/zones/${zoneId}/workers/routes`;
+  const routes = await cfResult<Array<{ id: string; pattern: string; script?: string }>>(
+    await fetch(base, { headers: cfHeaders(env) }),
+    "list Worker routes"
+  );
+  const existing = routes.find((r) => r.pattern === pattern);
+  if (existing?.script === scriptName) return { id: existing.id };
+  return cfResult(
+    await fetch(existing ? `${base}/${existing.id}` : base, {
+      method: existing ? "PUT" : "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({ pattern, script: scriptName })
+    }),
+    `route ${pattern} to ${scriptName}`
+  );
+}
+
+export async function deleteWorkerRoute(env: Env, zoneId: string, id: string): Promise<boolean> {
+  const res = await fetch(`${cfApi(env)}/zones/${zoneId}/workers/routes/${id}`, {
+    method: "DELETE",
+    headers: cfHeaders(env)
+  });
+  if (res.status === 404) return false;
+  await cfResult(res, `delete Worker route ${id}`);
+  return true;
+}
+
+/** Short random suffix for sandbox script names: lowercase letters and digits. */
+export function shortId(length = 6): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(length)), (b) => (b % 36).toString(36)).join("");
+}
+
+/**
+ * Static-assets upload: register a manifest of path → content hash, upload only the files
+ * Cloudflare asks for (grouped in buckets, base64-encoded), and return the completion token
+ * the script upload attaches. Unchanged files are never re-sent.
+ */
+async function uploadAssets(env: Env, scriptName: string, assets: Array<[string, string]>): Promise<string> {
+  const account = `${cfApi(env)}/accounts/${env.CLOUDFLARE_ACCOUNT_ID}`;
+  const files = await Promise.all(
+    assets.map(async ([path, content]) => {
+      const bytes = new TextEncoder().encode(content);
+      const hash = await assetHash(content);
+      return { path: `/${path}`, hash, size: bytes.length, bytes, type: contentTypeFor(path) };
+    })
+  );
+
+  const session = await cfResult<{ jwt: string; buckets?: string[][] }>(
+    await fetch(`${account}/workers/scripts/${scriptName}/assets-upload-session`, {
+      method: "POST",
+      headers: cfHeaders(env),
+      body: JSON.stringify({
+        manifest: Object.fromEntries(files.map((f) => [f.path, { hash: f.hash, size: f.size }]))
+      })
+    }),
+    `start assets upload for ${scriptName}`
+  );
+  // Nothing to send: the session token is already the completion token.
+  if (!session.buckets?.length) return session.jwt;
+
+  const byHash = new Map(files.map((f) => [f.hash, f]));
+  const results = await mapLimit(session.buckets, ASSET_BUCKET_CONCURRENCY, async (bucket) => {
+    const form = new FormData();
+    for (const hash of bucket) {
+      const file = byHash.get(hash);
+      if (!file) throw new Error(`Cloudflare asked for unknown asset ${hash}`);
+      form.append(hash, new File([toBase64(file.bytes)], hash, { type: file.type }));
+    }
+    return cfResult<{ jwt?: string } | null>(
+      await fetch(`${account}/workers/assets/upload?base64=true`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session.jwt}` },
+        body: form
+      }),
+      `upload assets for ${scriptName}`
+    );
+  });
+
+  const completion = results.find((r) => r?.jwt)?.jwt;
+  if (!completion) throw new Error(`Cloudflare assets upload for ${scriptName} returned no completion token`);
+  return completion;
+}
+
+/** Split uploads by file count and base64 size (4/3 of the raw size). */
+function pagesBatches<T extends { content: string }>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  let size = 0;
+  for (const item of items) {
+    const bytes = Math.ceil((new TextEncoder().encode(item.content).length * 4) / 3);
+    const last = batches[batches.length - 1];
+    if (!last || last.length >= PAGES_UPLOAD_BATCH_FILES || size + bytes > PAGES_UPLOAD_BATCH_BYTES) {
+      batches.push([item]);
+      size = bytes;
+    } else {
+      last.push(item);
+      size += bytes;
+    }
+  }
+  return batches;
+}
+
+async function workersSubdomain(env: Env): Promise<string> {
+  const account = env.CLOUDFLARE_ACCOUNT_ID!;
+  const cached = subdomains.get(account);
+  if (cached) return cached;
+  const { subdomain } = await cfResult<{ subdomain: string }>(
+    await fetch(`${cfApi(env)}/accounts/${account}/workers/subdomain`, { headers: cfHeaders(env) }),
+    "read workers.dev subdomain"
+  );
+  subdomains.set(account, subdomain);
+  return subdomain;
+}
+
+/** `result` of a Cloudflare API envelope; throws with Cloudflare's error messages otherwise. */
+async function cfResult<T>(res: Response, what: string): Promise<T> {
+  const body = await res.text();
+  let parsed: { success?: boolean; result?: T; errors?: Array<{ code: number; message: string }> } = {};
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // fall through with the raw body in the error
+  }
+  if (!res.ok || parsed.success === false) {
+    const reasons = parsed.errors?.map((e) => `${e.code}: ${e.message}`).join("; ") || body.slice(0, 300);
+    json("Cloudflare API error", { what, status: res.status, body });
+    throw new Error(`Cloudflare ${what} failed: ${res.status} ${reasons}`);
+  }
+  return parsed.result as T;
+}
+
+/** Content address for the assets manifest (and deployment file hashes): 32 hex chars of SHA-256. */
+export async function assetHash(content: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content)));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("").slice(0, 32);
+}
+
+function authHeader(env: Env): HeadersInit {
+  if (!env.CLOUDFLARE_API_TOKEN) throw new Error("Missing env: CLOUDFLARE_API_TOKEN");
+  return { Authorization: `Bearer ${env.CLOUDFLARE_API_TOKEN}` };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
@@ -0,0 +1,391 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "../types";
+import {
+  assetHash,
+  getPagesDeployment,
+  getPagesDeploymentLogs,
+  type PagesStage,
+  type WorkerBinding
+} from "./cloudflare";
+import { json as log } from "./log";
+import type { TeardownRecord } from "./teardown";
+import type { DomainRecord } from "./domains";
+import type { AppEnv } from "./appEnv";
+import type { ProvisionedBindings, ProvisionedResource } from "./provision";
+
+/** Where a deployment is: queued → uploading → building → deployed, or failed at any point. */
+export type DeploymentStage = "queued" | "uploading" | "building" | "deployed" | "failed";
+/** A Pages Direct Upload (/sandbox-deploy) or a Worker script upload (staged `deploy: true`). */
+export type DeploymentKind = "pages" | "worker";
+
+export type DeploymentLogLine = { at: string; stage: DeploymentStage; message: string };
+
+export type DeploymentRecord = {
+  id: string;
+  kind: DeploymentKind;
+  /** Pages project or Worker script name. */
+  target: string;
+  stage: DeploymentStage;
+  /** Every stage entered so far, oldest first, with when it was entered. */
+  stages: Array<{ name: DeploymentStage; at: string }>;
+  logs: DeploymentLogLine[];
+  url?: string;
+  error?: string;
+  /** Cloudflare's own id for a Pages deployment, once it's been created. */
+  pagesDeploymentId?: string;
+  /** How many lines of the Pages build log have been copied into `logs`. */
+  pagesLogLines?: number;
+  /** The generation (mvp `generationId`) the deployed files came from. */
+  generationId?: string;
+  /** Path → content hash (assetHash) of every file deployed. */
+  files?: Record<string, string>;
+  /** Smoke test outcome of the generation, when the deploy followed one. */
+  smoke?: { passed: boolean; skipped?: boolean };
+  /** Worker deployments: how to upload `files` again (their contents are stored by hash). */
+  worker?: { mainModule: string; modules: string[]; bindings: WorkerBinding[] };
+  /** Set on a rollback: the earlier deployment it made live again. */
+  rollbackOf?: string;
+  /** Set when this deployment created `target`; teardown only deletes targets LaunchWing created. */
+  created?: boolean;
+  /**
+   * D1 databases and KV namespaces provisioned for `target`. `created`: this deployment made it
+   * rather than finding it by name; teardown only deletes those.
+   */
+  resources?: { d1: ResourceRef[]; kv: ResourceRef[] };
+  /** Exempt from sandbox teardown, along with everything else deployed to `target`. */
+  kept?: boolean;
+  /** When scheduled teardown deleted `target` from Cloudflare. */
+  removedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type ResourceRef = Pick<ProvisionedResource, "id" | "created">;
+
+/** What's known about a deployment before it starts; see DeploymentRecord. */
+export type DeploymentDetails = Pick<
+  DeploymentRecord,
+  "generationId" | "files" | "smoke" | "worker" | "rollbackOf"
+>;
+
+const STAGE_ORDER: DeploymentStage[] = ["queued", "uploading", "building", "deployed"];
+/** Older lines are dropped; the record is stored as one value. */
+const MAX_LOG_LINES = 500;
+/** Durable Object storage takes at most this many keys per put() or get(). */
+const STORAGE_BATCH = 128;
+
+/**
+ * Deployment records in one Durable Object, so a status read always sees the latest write: the
+ * deploy and the client following it run in different requests, often in different isolates.
+ * Keys are laid out so nothing reads more than one target's entries: `deployment:<id>` holds a
+ * record, `history:<target>:<createdAt>:<id>` indexes it under its target (oldest first),
+ * `live:<kind>:<target>` holds the last deployment time of each target not yet torn down, and
+ * `file:<target>:<hash>` a stored bundle file.
+ */
+export class DeploymentRegistry extends DurableObject<Env> {
+  async get(id: string): Promise<DeploymentRecord | null> {
+    return (await this.ctx.storage.get<DeploymentRecord>(`deployment:${id}`)) ?? null;
+  }
+
+  async put(record: DeploymentRecord): Promise<void> {
+    const { id, kind, target, createdAt } = record;
+    const entries: Record<string, unknown> = {
+      [`deployment:${id}`]: record,
+      [`history:${target}:${createdAt}:${id}`]: id
+    };
+    if (!record.removedAt) {
+      const last = await this.ctx.storage.get<string>(`live:${kind}:${target}`);
+      if (!last || createdAt > last) entries[`live:${kind}:${target}`] = createdAt;
+    }
+    await this.ctx.storage.put(entries);
+  }
+
+  /** Deployments of `target` (Pages project or Worker script), newest first; at most `limit`. */
+  async history(target: string, limit?: number): Promise<DeploymentRecord[]> {
+    const index = await this.ctx.storage.list<string>({ prefix: `history:${target}:`, reverse: true, limit });
+    const ids = [...index.values()];
+    const records: DeploymentRecord[] = [];
+    for (let i = 0; i < ids.length; i += STORAGE_BATCH) {
+      const keys = ids.slice(i, i + STORAGE_BATCH).map((id) => `deployment:${id}`);
+      records.push(...(await this.ctx.storage.get<DeploymentRecord>(keys)).values());
+    }
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /** Every target with a deployment that hasn't been torn down, and when it was last deployed to. */
+  async liveTargets(): Promise<Array<{ kind: DeploymentKind; target: string; lastDeployedAt: string }>> {
+    const live = await this.ctx.storage.list<string>({ prefix: "live:" });
+    return [...live].map(([key, lastDeployedAt]) => {
+      const [, kind, target] = key.split(":");
+      return { kind: kind as DeploymentKind, target, lastDeployedAt };
+    });
+  }
+
+  /** Store `target`'s file contents under their hash; the same file is only kept once per target. */
+  async putFiles(target: string, contents: Record<string, string>): Promise<void> {
+    const entries = Object.entries(contents).map(([hash, content]) => [`file:${target}:${hash}`, content]);
+    for (let i = 0; i < entries.length; i += STORAGE_BATCH) {
+      await this.ctx.storage.put(Object.fromEntries(entries.slice(i, i + STORAGE_BATCH)));
+    }
+  }
+
+  /** `target`'s file contents by hash; hashes that were never stored are left out. */
+  async getFiles(target: string, hashes: string[]): Promise<Record<string, string>> {
+    const prefix = `file:${target}:`;
+    const found: Record<string, string> = {};
+    for (let i = 0; i < hashes.length; i += STORAGE_BATCH) {
+      const keys = hashes.slice(i, i + STORAGE_BATCH).map((hash) => `${prefix}${hash}`);
+      const batch = await this.ctx.storage.get<string>(keys);
+      for (const [key, content] of batch) found[key.slice(prefix.length)] = content;
+    }
+    return found;
+  }
+
+  async setKept(id: string, kept: boolean): Promise<DeploymentRecord | null> {
+    const record = await this.get(id);
+    if (!record) return null;
+    record.kept = kept;
+    await this.put(record);
+    return record;
+  }
+
+  /** Give every deployment of `target` `removedAt`, and drop its stored bundles. */
+  async markRemoved(kind: DeploymentKind, target: string, at: string): Promise<void> {
+    await this.ctx.storage.delete(`live:${kind}:${target}`);
+    for (const record of await this.history(target)) {
+      if (record.kind === kind && !record.removedAt) await this.put({ ...record, removedAt: at });
+    }
+    // A removed target can't be rolled back, so its stored bundles can go; a batch at a time,
+    // since listing loads the contents too.
+    const prefix = `file:${target}:`;
+    for (;;) {
+      const keys = [...(await this.ctx.storage.list({ prefix, limit: STORAGE_BATCH })).keys()];
+      if (!keys.length) break;
+      await this.ctx.storage.delete(keys);
+    }
+  }
+
+  async getDomain(hostname: string): Promise<DomainRecord | null> {
+    return (await this.ctx.storage.get<DomainRecord>(`domain:${hostname}`)) ?? null;
+  }
+
+  async putDomain(record: DomainRecord): Promise<void> {
+    await this.ctx.storage.put(`domain:${record.hostname}`, record);
+  }
+
+  /** The custom hostnames attached to `target`. */
+  async domains(target: string): Promise<DomainRecord[]> {
+    const all = await this.ctx.storage.list<DomainRecord>({ prefix: "domain:" });
+    return [...all.values()].filter((d) => d.target === target);
+  }
+
+  async deleteDomain(hostname: string): Promise<void> {
+    await this.ctx.storage.delete(`domain:${hostname}`);
+  }
+
+  async getEnv(app: string): Promise<AppEnv | null> {
+    return (await this.ctx.storage.get<AppEnv>(`env:${app}`)) ?? null;
+  }
+
+  async putEnv(appEnv: AppEnv): Promise<void> {
+    await this.ctx.storage.put(`env:${appEnv.app}`, appEnv);
+  }
+
+  async deleteEnv(app: string): Promise<void> {
+    await this.ctx.storage.delete(`env:${app}`);
+  }
+
+  /** Keep what a teardown run removed, keyed by time so they list oldest first. */
+  async recordTeardown(teardown: TeardownRecord): Promise<void> {
+    await this.ctx.storage.put(`teardown:${teardown.at}`, teardown);
+  }
+}
+
+export interface DeploymentTracker {
+  readonly id: string;
+  record(): DeploymentRecord;
+  /** Move to `stage` (ignored if the deployment is already past it), logging `message` if given. */
+  stage(stage: DeploymentStage, message?: string, at?: string): Promise<void>;
+  log(message: string): Promise<void>;
+  /** Remember that this deployment created the target: it didn't exist on Cloudflare before. */
+  created(): Promise<void>;
+  /** Remember what provisionBindings set up for the target. */
+  resources(provisioned: ProvisionedBindings): Promise<void>;
+  /**
+   * Record the hash of every file about to be deployed. With `worker`, the contents are stored
+   * too, so POST /apps/:name/rollback can upload the same script again later.
+   */
+  bundle(files: Record<string, string>, worker?: DeploymentRecord["worker"]): Promise<void>;
+  /** Record Cloudflare's id once a Pages deployment has been created; its status comes from there. */
+  pagesDeployment(pagesDeploymentId: string, url: string): Promise<void>;
+  /** `pagesDeploymentId`: set when Cloudflare made a Pages deployment live right away (rollback). */
+  deployed(url: string, pagesDeploymentId?: string): Promise<void>;
+  failed(err: unknown): Promise<void>;
+}
+
+/**
+ * Start recording a deployment of `target`. Every change is saved to the DEPLOYMENTS registry
+ * so GET /deployments/:id can follow it; without the binding the record is only kept in memory.
+ * Saving is best effort: a registry failure is logged and never fails the deploy itself.
+ */
+export async function startDeployment(
+  env: Env,
+  kind: DeploymentKind,
+  target: string,
+  details: DeploymentDetails = {}
+): Promise<DeploymentTracker> {
+  const now = new Date().toISOString();
+  const record: DeploymentRecord = {
+    id: crypto.randomUUID(),
+    kind,
+    target,
+    ...details,
+    stage: "queued",
+    stages: [{ name: "queued", at: now }],
+    logs: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  const registry = deploymentRegistry(env);
+  const save = async () => {
+    record.updatedAt = new Date().toISOString();
+    try {
+      await registry?.put(record);
+    } catch (err: any) {
+      log("deployment record not saved", { id: record.id, error: String(err?.message || err) });
+    }
+  };
+  await save();
+
+  return {
+    id: record.id,
+    record: () => record,
+    async stage(stage, message, at) {
+      enterStage(record, stage, at);
+      if (message) appendLog(record, message, at);
+      await save();
+    },
+    async log(message) {
+      appendLog(record, message);
+      await save();
+    },
+    async created() {
+      record.created = true;
+      await save();
+    },
+    async resources(provisioned) {
+      if (!provisioned.d1.length && !provisioned.kv.length) return;
+      const ref = ({ id, created }: ResourceRef) => ({ id, created });
+      record.resources = { d1: provisioned.d1.map(ref), kv: provisioned.kv.map(ref) };
+      await save();
+    },
+    async bundle(files, worker) {
+      const hashes = await Promise.all(Object.values(files).map(assetHash));
+      record.files = Object.fromEntries(Object.keys(files).map((path, i) => [path, hashes[i]]));
+      if (worker) {
+        try {
+          const contents = Object.values(files).map((content, i) => [hashes[i], content]);
+          await registry?.putFiles(target, Object.fromEntries(contents));
+          record.worker = worker;
+        } catch (err: any) {
+          log("deployment bundle not stored", { id: record.id, error: String(err?.message || err) });
+        }
+      }
+      await save();
+    },
+    async pagesDeployment(pagesDeploymentId, url) {
+      record.pagesDeploymentId = pagesDeploymentId;
+      record.url = url;
+      enterStage(record, "building");
+      appendLog(record, `Cloudflare Pages deployment ${pagesDeploymentId} created`);
+      await save();
+    },
+    async deployed(url, pagesDeploymentId) {
+      record.url = url;
+      if (pagesDeploymentId) record.pagesDeploymentId = pagesDeploymentId;
+      enterStage(record, "deployed");
+      appendLog(record, `Deployed to ${url}`);
+      await save();
+    },
+    async failed(err) {
+      if (isFinished(record)) return;
+      record.error = String((err as any)?.message || err);
+      enterStage(record, "failed");
+      appendLog(record, record.error);
+      await save();
+    }
+  };
+}
+
+/**
+ * The deployment's current record, or null if there's none. A Pages deployment that hasn't
+ * finished is refreshed from Cloudflare first: its stage and build log come from there.
+ */
+export async function getDeployment(env: Env, id: string): Promise<DeploymentRecord | null> {
+  const registry = deploymentRegistry(env);
+  if (!registry) throw new Error("Missing binding: DEPLOYMENTS");
+  const record = await registry.get(id);
+  if (!record || !record.pagesDeploymentId || isFinished(record)) return record;
+
+  const before = record.updatedAt;
+  await refreshPagesDeployment(env, record);
+  if (record.updatedAt !== before) await registry.put(record);
+  return record;
+}
+
+export function isFinished(record: DeploymentRecord): boolean {
+  return record.stage === "deployed" || record.stage === "failed";
+}
+
+export function deploymentRegistry(env: Env) {
+  return env.DEPLOYMENTS ? env.DEPLOYMENTS.get(env.DEPLOYMENTS.idFromName("registry")) : null;
+}
+
+async function refreshPagesDeployment(env: Env, record: DeploymentRecord) {
+  const [status, lines] = await Promise.all([
+    getPagesDeployment(env, record.target, record.pagesDeploymentId!),
+    getPagesDeploymentLogs(env, record.target, record.pagesDeploymentId!).catch(() => [])
+  ]);
+  const stageBefore = record.stage;
+  const logsBefore = record.logs.length;
+
+  for (const { ts, line } of lines.slice(record.pagesLogLines ?? 0)) appendLog(record, line, ts);
+  record.pagesLogLines = Math.max(record.pagesLogLines ?? 0, lines.length);
+
+  const latest = status.latest_stage;
+  const stage = pagesStage(latest);
+  const at = latest.ended_on || latest.started_on || undefined;
+  enterStage(record, stage, at);
+  if (stage === "failed") {
+    record.error = `Cloudflare Pages ${latest.name} stage ${latest.status}`;
+    appendLog(record, record.error, at);
+  }
+  if (stage === "deployed") {
+    record.url = status.url;
+    appendLog(record, `Deployed to ${status.url}`, at);
+  }
+
+  if (record.stage !== stageBefore || record.logs.length !== logsBefore) {
+    record.updatedAt = new Date().toISOString();
+  }
+}
+
+/** Cloudflare's Pages stages (queued, initialize, clone_repo, build, deploy) mapped onto ours. */
+function pagesStage(latest: PagesStage): DeploymentStage {
+  if (latest.status === "failure" || latest.status === "canceled") return "failed";
+  if (latest.name === "deploy" && latest.status === "success") return "deployed";
+  if (latest.name === "queued") return "queued";
+  return "building";
+}
+
+function enterStage(record: DeploymentRecord, stage: DeploymentStage, at = new Date().toISOString()) {
+  if (isFinished(record)) return;
+  if (stage !== "failed" && STAGE_ORDER.indexOf(stage) <= STAGE_ORDER.indexOf(record.stage)) return;
+  record.stage = stage;
+  record.stages.push({ name: stage, at });
+}
+
+function appendLog(record: DeploymentRecord, message: string, at = new Date().toISOString()) {
+  record.logs.push({ at, stage: record.stage, message });
+  if (record.logs.length > MAX_LOG_LINES) record.logs.splice(0, record.logs.length - MAX_LOG_LINES);
+}
@@ -0,0 +1,181 @@
+import type { Env } from "../types";
+import {
+  addPagesDomain,
+  createCustomHostname,
+  ensureWorkerRoute,
+  findCustomHostname,
+  getCustomHostname,
+  getPagesDomain,
+  type CustomHostname,
+  type PagesDomain
+} from "./cloudflare";
+import { deploymentRegistry, type DeploymentKind } from "./deployments";
+import { json as log } from "./log";
+
+/** A custom hostname attached to an app, as saved in the DEPLOYMENTS registry (`domain:<hostname>`). */
+export type DomainRecord = {
+  hostname: string;
+  /** Pages project or Worker script name. */
+  target: string;
+  kind: DeploymentKind;
+  /** Workers only: the custom hostname and route on CUSTOM_HOSTNAME_ZONE_ID, removed with the app. */
+  customHostnameId?: string;
+  routeId?: string;
+  createdAt: string;
+};
+
+/** A record the user has to add at their DNS provider. */
+export type DnsRecord = { type: "CNAME" | "TXT"; name: string; value: string; purpose: string };
+
+export type DomainStatus = {
+  hostname: string;
+  target: string;
+  kind: DeploymentKind;
+  /** `active` once the hostname is verified and its certificate issued; `failed` needs a retry. */
+  status: "pending" | "active" | "failed";
+  /** Cloudflare's certificate status, e.g. `pending_validation` or `active`. */
+  certificate: string;
+  dnsRecords: DnsRecord[];
+  errors: string[];
+};
+
+/** Thrown for a hostname that can't be attached; `status` is the HTTP status to answer with. */
+export class DomainError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "DomainError";
+  }
+}
+
+const HOSTNAME = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+/** Hostnames Cloudflare already serves the app on; they can't be attached again. */
+const CLOUDFLARE_HOSTNAMES = /\.(pages\.dev|workers\.dev)$/;
+
+/**
+ * Attach `hostname` to the Pages project or Worker script `target` and return what the user has
+ * to do next. Pages projects use their own custom domains. Workers go through Cloudflare for
+ * SaaS: the hostname is added to CUSTOM_HOSTNAME_ZONE_ID and routed to the script there, and the
+ * user's CNAME points at CUSTOM_HOSTNAME_TARGET. Attaching the same hostname again is a no-op.
+ */
+export async function attachDomain(
+  env: Env,
+  target: string,
+  kind: DeploymentKind,
+  rawHostname: string
+): Promise<DomainStatus> {
+  const registry = deploymentRegistry(env);
+  if (!registry) throw new Error("Missing binding: DEPLOYMENTS");
+  const hostname = rawHostname.trim().toLowerCase().replace(/\.$/, "");
+  if (!HOSTNAME.test(hostname)) throw new DomainError(`${rawHostname} is not a valid hostname`, 400);
+  if (CLOUDFLARE_HOSTNAMES.test(hostname)) {
+    throw new DomainError(`${hostname} is a Cloudflare hostname; use a domain you own`, 400);
+  }
+  const existing = await registry.getDomain(hostname);
+  if (existing && existing.target !== target) {
+    throw new DomainError(`${hostname} is already attached to ${existing.target}`, 409);
+  }
+
+  const record: DomainRecord = existing || { hostname, target, kind, createdAt: new Date().toISOString() };
+  let status: DomainStatus;
+  if (kind === "pages") {
+    const domain =
+      (await getPagesDomain(env, target, hostname)) || (await addPagesDomain(env, target, hostname));
+    status = pagesDomainStatus(record, domain);
+  } else {
+    const zoneId = saasZone(env);
+    const custom =
+      (await findCustomHostname(env, zoneId, hostname)) || (await createCustomHostname(env, zoneId, hostname));
+    const route = await ensureWorkerRoute(env, zoneId, `${hostname}/*`, target);
+    record.customHostnameId = custom.id;
+    record.routeId = route.id;
+    status = customHostnameStatus(env, record, custom);
+  }
+
+  await registry.putDomain(record);
+  log("domain attached", { hostname, target, kind, status: status.status });
+  return status;
+}
+
+/** Where `hostname` is, fresh from Cloudflare; null if it isn't attached to `target`. */
+export async function getDomainStatus(
+  env: Env,
+  target: string,
+  hostname: string
+): Promise<DomainStatus | null> {
+  const registry = deploymentRegistry(env);
+  if (!registry) throw new Error("Missing binding: DEPLOYMENTS");
+  const record = await registry.getDomain(hostname.toLowerCase());
+  if (!record || record.target !== target) return null;
+
+  if (record.kind === "pages") {
+    const domain = await getPagesDomain(env, target, record.hostname);
+    if (!domain) throw new DomainError(`${record.hostname} is no longer attached to ${target}`, 410);
+    return pagesDomainStatus(record, domain);
+  }
+  const custom = await getCustomHostname(env, saasZone(env), record.customHostnameId!);
+  return customHostnameStatus(env, record, custom);
+}
+
+function pagesDomainStatus(record: DomainRecord, domain: PagesDomain): DomainStatus {
+  const { verification_data: verification, validation_data: validation } = domain;
+  const dnsRecords = [cname(record.hostname, `${record.target}.pages.dev`)];
+  if (validation?.txt_name && validation.txt_value) {
+    dnsRecords.push(txt(validation.txt_name, validation.txt_value, "certificate"));
+  }
+  const failed = ["error", "blocked", "deactivated"].includes(domain.status);
+  return {
+    hostname: record.hostname,
+    target: record.target,
+    kind: record.kind,
+    status: domain.status === "active" ? "active" : failed ? "failed" : "pending",
+    certificate: validation?.status || domain.status,
+    dnsRecords,
+    errors: [verification?.error_message, validation?.error_message].filter((e): e is string => !!e)
+  };
+}
+
+/** Certificate states Cloudflare for SaaS won't leave on its own. */
+const FAILED_SSL = ["validation_timed_out", "issuance_timed_out", "expired", "deleted"];
+
+function customHostnameStatus(env: Env, record: DomainRecord, custom: CustomHostname): DomainStatus {
+  const { ssl, ownership_verification: ownership } = custom;
+  const dnsRecords = [cname(record.hostname, env.CUSTOM_HOSTNAME_TARGET!)];
+  if (ownership && custom.status !== "active") {
+    dnsRecords.push(txt(ownership.name, ownership.value, "hostname ownership"));
+  }
+  for (const r of ssl.validation_records || []) {
+    if (r.txt_name && r.txt_value) dnsRecords.push(txt(r.txt_name, r.txt_value, "certificate"));
+  }
+  const active = custom.status === "active" && ssl.status === "active";
+  const failed = ["moved", "deleted", "blocked"].includes(custom.status) || FAILED_SSL.includes(ssl.status);
+  return {
+    hostname: record.hostname,
+    target: record.target,
+    kind: record.kind,
+    status: active ? "active" : failed ? "failed" : "pending",
+    certificate: ssl.status,
+    dnsRecords,
+    errors: [...(custom.verification_errors || []), ...(ssl.validation_errors || []).map((e) => e.message)]
+  };
+}
+
+function cname(hostname: string, value: string): DnsRecord {
+  return { type: "CNAME", name: hostname, value, purpose: "routes the hostname to the app" };
+}
+
+function txt(name: string, value: string, purpose: string): DnsRecord {
+  return { type: "TXT", name, value, purpose };
+}
+
+function saasZone(env: Env): string {
+  if (!env.CUSTOM_HOSTNAME_ZONE_ID || !env.CUSTOM_HOSTNAME_TARGET) {
+    throw new DomainError(
+      "Custom domains for Workers are not configured (CUSTOM_HOSTNAME_ZONE_ID, CUSTOM_HOSTNAME_TARGET)",
+      501
+    );
+  }
+  return env.CUSTOM_HOSTNAME_ZONE_ID;
+}
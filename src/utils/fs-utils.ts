@@ -9,4 +9,51 @@ export function joinPath(...parts: string[]): string {
 /** Basic in-memory “zip” placeholder: return a JSON string for now */
 export async function toZipLikeJson(files: FileMap): Promise<string> {
   return JSON.stringify(files);
-}
\ No newline at end of file
+}
+/** Server-side files (Advanced Mode worker, Pages Functions, D1 migrations); never served as assets */
+export function isServerFile(path: string): boolean {
+  return (
+    path === "_worker.js" ||
+    path.startsWith("worker/") ||
+    path.startsWith("functions/") ||
+    path.startsWith("migrations/")
+  );
+}
+
+/** Build and repo files at the bundle root; deploy config and docs, not part of the site. */
+const REPO_FILES = [
+  "wrangler.toml",
+  "wrangler.json",
+  "wrangler.jsonc",
+  "package.json",
+  "package-lock.json",
+  "tsconfig.json",
+  "README.md"
+];
+
+/**
+ * Files a deploy never serves as static assets: server files, build and repo files, TypeScript
+ * sources (they need a build step) and dotfiles (.github, .gitignore, .launchwing.json).
+ */
+export function isPrivateFile(path: string): boolean {
+  return isServerFile(path) || REPO_FILES.includes(path) || /\.tsx?$/.test(path) || /(^|\/)\./.test(path);
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: "text/html; charset=utf-8",
+  css: "text/css; charset=utf-8",
+  js: "text/javascript; charset=utf-8",
+  mjs: "text/javascript; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  svg: "image/svg+xml",
+  txt: "text/plain; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+  xml: "application/xml",
+  webmanifest: "application/manifest+json"
+};
+
+/** Content type for a bundle path, by extension */
+export function contentTypeFor(path: string): string {
+  const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return CONTENT_TYPES[ext] || "application/octet-stream";
+}
@@ -1,80 +1,395 @@
 import { json } from "./log";
-import type { Env } from "../types";
+import { mapLimit } from "./async";
+import { sealedBox } from "./sealedBox";
+import {
+  ghFetch,
+  ghJSON,
+  githubError,
+  GitHubConflictError,
+  GitHubForbiddenError,
+  GitHubValidationError,
+  GH_API
+} from "./githubClient";
+import type { GitHubTarget } from "./githubAuth";
+import type { IR } from "@t/ir";
 
-const GH_API = "https://api.github.com";
+/** Parallel blob uploads per push; GitHub throttles bursts of content-creating requests. */
+const BLOB_CONCURRENCY = 4;
+/** Names tried by the "suffix" and "reuse-owned" policies: name, name-2, … name-10. */
+const MAX_NAME_ATTEMPTS = 10;
+/** readRepoFiles defaults: larger files are skipped; more text files than this is an error. */
+export const MAX_IMPORT_FILE_BYTES = 256 * 1024;
+const MAX_IMPORT_FILES = 500;
+/** Skipped without downloading; anything else is checked for NUL bytes and valid UTF-8. */
+const BINARY_EXTENSIONS =
+  /\.(png|jpe?g|gif|webp|avif|ico|bmp|tiff?|pdf|zip|gz|tgz|bz2|xz|7z|rar|jar|wasm|woff2?|ttf|otf|eot|mp3|mp4|m4a|wav|ogg|webm|mov|avi|exe|dll|so|dylib|bin|class|pyc|sqlite3?|db)$/i;
 
-export async function ensureRepo(env: Env, repo: string, isPrivate = true) {
-  assertEnv(env.GITHUB_TOKEN, "GITHUB_TOKEN");
-  assertEnv(env.GITHUB_ORG, "GITHUB_ORG");
+/** Ownership marker committed at the repo root by every LaunchWing push. */
+export const MARKER_PATH = ".launchwing.json";
 
-  const headers = ghHeaders(env.GITHUB_TOKEN!);
+/** `ir` is the IR the files were generated from, so an imported repo can be regenerated. */
+export type LaunchwingMarker = {
+  generator: "launchwing";
+  ideaId: string | null;
+  generationId: string;
+  ir?: IR;
+};
 
-  // Try get
-  let res = await fetch(`${GH_API}/repos/${env.GITHUB_ORG}/${repo}`, { headers });
-  if (res.status === 200) return await res.json();
+/**
+ * What ensureRepo does when the name is taken:
+ * - "suffix": use the first free name among name-2, name-3, …
+ * - "fail": throw
+ * - "reuse-owned": reuse it if its marker carries the caller's ideaId, otherwise behave like "suffix"
+ */
+export type CollisionPolicy = "suffix" | "fail" | "reuse-owned";
 
-  // Create
-  res = await fetch(`${GH_API}/orgs/${env.GITHUB_ORG}/repos`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ name: repo, private: isPrivate, auto_init: false })
-  });
-  if (!res.ok) throw new Error(`GitHub create repo failed: ${res.status} ${await res.text()}`);
-  return await res.json();
+export type FileChange = { path: string; status: "added" | "modified" };
+
+export type PushResult = {
+  url: string;
+  branch: string;
+  /** New head of `branch`; equal to `parent` when the files were already there. */
+  commit: string;
+  parent: string | null;
+  /** Pushed files that differ from `parent`; unchanged files are left out. */
+  changes: FileChange[];
+};
+
+export type SkippedFile = { path: string; reason: "binary" | "too-large" | "symlink" | "submodule" };
+
+/** A repo's text files at one commit, as read by readRepoFiles. */
+export type RepoSnapshot = {
+  ref: string;
+  commit: string;
+  files: Record<string, string>;
+  skipped: SkippedFile[];
+};
+
+/** `name` may differ from the requested name when a suffix was added. */
+export type RepoInfo = { name: string; created: boolean; defaultBranch: string; url: string };
+
+/** Find or create `repo` under the target owner, applying `onCollision` (default "reuse-owned"). */
+export async function ensureRepo(
+  gh: GitHubTarget,
+  repo: string,
+  opts: { isPrivate?: boolean; onCollision?: CollisionPolicy; ideaId?: string } = {}
+): Promise<RepoInfo> {
+  const invalid = validateRepoName(repo);
+  if (invalid) throw new GitHubValidationError(invalid);
+
+  const policy = opts.onCollision || "reuse-owned";
+
+  for (let attempt = 1; attempt <= MAX_NAME_ATTEMPTS; attempt++) {
+    const name = attempt === 1 ? repo : withSuffix(repo, attempt);
+
+    const url = `${GH_API}/repos/${gh.owner}/${name}`;
+    let res = await ghFetch(gh.token, "GET", url);
+    if (res.status === 200) {
+      const existing = await res.json();
+      if (policy === "fail") throw new GitHubConflictError(`GitHub repo ${gh.owner}/${name} already exists`);
+      if (policy === "reuse-owned" && opts.ideaId) {
+        const marker = await readMarker(gh.token, url);
+        if (marker?.ideaId === opts.ideaId) return repoInfo(existing, name, false);
+      }
+      json("ensureRepo: name taken", { name, policy });
+      continue;
+    }
+    if (res.status !== 404) throw await githubError(res, "GET", url);
+
+    if (gh.ownerType === "User" && gh.via === "app") {
+      // Installation tokens can't create repos in personal accounts, only write to granted ones.
+      throw new GitHubForbiddenError(
+        `Create ${gh.owner}/${name} and grant the LaunchWing GitHub App access to it first`
+      );
+    }
+    // Create with an initial commit: the Git Data API refuses to write to an empty repository.
+    const createUrl = gh.ownerType === "User" ? `${GH_API}/user/repos` : `${GH_API}/orgs/${gh.owner}/repos`;
+    res = await ghFetch(gh.token, "POST", createUrl, {
+      body: { name, private: opts.isPrivate ?? true, auto_init: true }
+    });
+    if (res.status === 422 && policy !== "fail") continue; // created concurrently: try the next name
+    if (!res.ok) throw await githubError(res, "POST", createUrl);
+    return repoInfo(await res.json(), name, true);
+  }
+  throw new GitHubConflictError(`No free GitHub repo name for ${repo} after ${MAX_NAME_ATTEMPTS} attempts`);
 }
 
-export async function pushFilesWithContentsAPI(
-  env: Env,
+/** GitHub's repository naming rules; returns the problem, or null when `name` is valid. */
+export function validateRepoName(name: string): string | null {
+  if (!name) return "repo name is empty";
+  if (name.length > 100) return `repo name is longer than 100 characters: ${name.slice(0, 40)}…`;
+  if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+    return `repo name may only contain letters, digits, '.', '_' and '-': ${name}`;
+  }
+  if (name === "." || name === "..") return `repo name is reserved: ${name}`;
+  if (/\.git$/i.test(name)) return `repo name must not end in .git: ${name}`;
+  return null;
+}
+
+export function markerFile(marker: Omit<LaunchwingMarker, "generator">): string {
+  const content: LaunchwingMarker = { generator: "launchwing", ...marker };
+  return JSON.stringify(content, null, 2) + "\n";
+}
+
+/**
+ * Push `files` as one commit: upload blobs, build one tree on top of the branch head, commit,
+ * then move the branch with a non-forced ref update. That update only succeeds if the branch
+ * still points at the commit we built on, so a concurrent push makes this one fail instead of
+ * being overwritten (or overwriting it). Nothing is visible on the branch until that last step.
+ * A branch that doesn't exist yet is created from the head of `opts.from` (default branch if unset).
+ * Changes only to `opts.ignore` paths don't count: if nothing else changed, nothing is pushed.
+ */
+export async function pushFiles(
+  gh: GitHubTarget,
   repo: string,
   files: Record<string, string>,
-  message: string
-) {
-  assertEnv(env.GITHUB_TOKEN, "GITHUB_TOKEN");
-  assertEnv(env.GITHUB_ORG, "GITHUB_ORG");
+  message: string,
+  opts: { branch?: string; from?: string; ignore?: string[] } = {}
+): Promise<PushResult> {
+  const base = `${GH_API}/repos/${gh.owner}/${repo}`;
+  const url = `https://github.com/${gh.owner}/${repo}`;
+  // Blobs and trees are content-addressed, so creating them twice is harmless: retry those.
+  const call = <T>(method: string, path: string, body?: unknown, idempotent?: boolean) =>
+    ghJSON<T>(gh.token, method, `${base}${path}`, body, { idempotent });
 
-  const headers = ghHeaders(env.GITHUB_TOKEN!);
+  const defaultBranch = async () => (await call<{ default_branch: string }>("GET", "")).default_branch;
+  const branch = opts.branch || (await defaultBranch());
+  let parent = await headOf(gh.token, base, branch);
+  const exists = parent !== null;
+  if (!exists && opts.branch) {
+    parent = await headOf(gh.token, base, opts.from || (await defaultBranch()));
+  }
+  if (parent === "empty") {
+    // Repos created before ensureRepo used auto_init: seed them through the contents API.
+    await call("PUT", "/contents/README.md", {
+      message: "Initial commit",
+      content: b64(`# ${repo}\n`),
+      branch
+    });
+    parent = await headOf(gh.token, base, branch);
+  }
+  if (parent === "empty") throw new Error(`GitHub repo ${repo} is still empty after seeding it`);
+  const baseTree = parent
+    ? (await call<{ tree: { sha: string } }>("GET", `/git/commits/${parent}`)).tree.sha
+    : null;
 
-  // For idempotency, fetch default branch latest SHA for root (optional)
-  // Then PUT each file via contents API
   const entries = Object.entries(files);
-  for (const [path, content] of entries) {
-    const url = `${GH_API}/repos/${env.GITHUB_ORG}/${repo}/contents/${encodeURIComponent(path)}`;
-    const get = await fetch(url, { headers });
-    let sha: string | undefined;
-    if (get.status === 200) {
-      const j = await get.json();
-      sha = j.sha;
-    }
+  const blobs = await mapLimit(entries, BLOB_CONCURRENCY, ([, content]) =>
+    call<{ sha: string }>("POST", "/git/blobs", { content: b64(content), encoding: "base64" }, true)
+  );
+
+  const tree = await call<{ sha: string }>(
+    "POST",
+    "/git/trees",
+    {
+      ...(baseTree ? { base_tree: baseTree } : {}),
+      tree: entries.map(([path], i) => ({ path, mode: "100644", type: "blob", sha: blobs[i].sha }))
+    },
+    true
+  );
+  const changes = baseTree ? await diffTree(call, baseTree, entries, blobs) : addedAll(entries);
+  const ignored = new Set(opts.ignore);
+  if (parent && (tree.sha === baseTree || changes.every((c) => ignored.has(c.path)))) {
+    // Nothing to commit; a branch that didn't exist is not created either.
+    json("GitHub push: no changes", { repo, branch });
+    return { url, branch, commit: parent, parent, changes };
+  }
+
+  const commit = await call<{ sha: string }>("POST", "/git/commits", {
+    message,
+    tree: tree.sha,
+    parents: parent ? [parent] : []
+  });
+
+  // Compare-and-swap: a non-forced update is rejected (422) unless it fast-forwards from the
+  // current head, i.e. unless the branch is still at `parent`. Creating a ref that already
+  // exists is rejected the same way.
+  const refUrl = exists ? `${base}/git/refs/heads/${branch}` : `${base}/git/refs`;
+  const refMethod = exists ? "PATCH" : "POST";
+  const ref = await ghFetch(gh.token, refMethod, refUrl, {
+    body: exists ? { sha: commit.sha, force: false } : { ref: `refs/heads/${branch}`, sha: commit.sha }
+  });
+  if (ref.status === 422 || ref.status === 409) {
+    const body = await ref.text();
+    json("GitHub push conflict", { repo, branch, parent, status: ref.status, body });
+    throw new GitHubConflictError(
+      `GitHub push rejected: ${repo}@${branch} moved since ${parent ?? "(no commits)"}; retry the push`,
+      body
+    );
+  }
+  if (!ref.ok) throw await githubError(ref, refMethod, refUrl);
+
+  json("GitHub push", { repo, branch, files: entries.length, commit: commit.sha });
+  return { url, branch, commit: commit.sha, parent, changes };
+}
 
-    const put = await fetch(url, {
-      method: "PUT",
-      headers,
-      body: JSON.stringify({
-        message,
-        content: b64(content),
-        sha
-      })
+export async function openPullRequest(
+  gh: GitHubTarget,
+  repo: string,
+  pr: { head: string; base: string; title: string; body: string }
+): Promise<{ number: number; url: string }> {
+  const created = await ghJSON<{ number: number; html_url: string }>(
+    gh.token,
+    "POST",
+    `${GH_API}/repos/${gh.owner}/${repo}/pulls`,
+    pr
+  );
+  return { number: created.number, url: created.html_url };
+}
+
+/**
+ * Read every text file of `repo` at `ref` (branch, tag or commit; default branch if unset) with
+ * one recursive tree read plus one blob read per file. Binary files, symlinks, submodules and
+ * files over `maxFileBytes` are listed in `skipped` instead of `files`.
+ */
+export async function readRepoFiles(
+  gh: GitHubTarget,
+  repo: string,
+  opts: { ref?: string; maxFileBytes?: number } = {}
+): Promise<RepoSnapshot> {
+  const base = `${GH_API}/repos/${gh.owner}/${repo}`;
+  const call = <T>(path: string) => ghJSON<T>(gh.token, "GET", `${base}${path}`);
+  const maxBytes = opts.maxFileBytes || MAX_IMPORT_FILE_BYTES;
+
+  const ref = opts.ref || (await call<{ default_branch: string }>("")).default_branch;
+  const commit = await call<{ sha: string; commit: { tree: { sha: string } } }>(
+    `/commits/${encodeURIComponent(ref)}`
+  );
+  const tree = await call<{
+    truncated: boolean;
+    tree: Array<{ path: string; mode: string; type: string; sha: string; size?: number }>;
+  }>(`/git/trees/${commit.commit.tree.sha}?recursive=1`);
+  if (tree.truncated) throw new GitHubValidationError(`GitHub repo ${repo} is too large to import (tree truncated)`);
+
+  const skipped: SkippedFile[] = [];
+  const wanted = tree.tree.filter((e) => {
+    if (e.type === "commit") skipped.push({ path: e.path, reason: "submodule" });
+    else if (e.type !== "blob") return false;
+    else if (e.mode === "120000") skipped.push({ path: e.path, reason: "symlink" });
+    else if ((e.size ?? 0) > maxBytes) skipped.push({ path: e.path, reason: "too-large" });
+    else if (BINARY_EXTENSIONS.test(e.path)) skipped.push({ path: e.path, reason: "binary" });
+    else return true;
+    return false;
+  });
+  if (wanted.length > MAX_IMPORT_FILES) {
+    throw new GitHubValidationError(
+      `GitHub repo ${repo} has ${wanted.length} text files; at most ${MAX_IMPORT_FILES} can be imported`
+    );
+  }
+
+  const contents = await mapLimit(wanted, BLOB_CONCURRENCY, async (e) =>
+    decodeText((await call<{ content: string }>(`/git/blobs/${e.sha}`)).content)
+  );
+  const files: Record<string, string> = {};
+  wanted.forEach((e, i) => {
+    const text = contents[i];
+    if (text === null) skipped.push({ path: e.path, reason: "binary" });
+    else files[e.path] = text;
+  });
+
+  json("GitHub read", { repo, ref, commit: commit.sha, files: wanted.length, skipped: skipped.length });
+  return { ref, commit: commit.sha, files, skipped };
+}
+
+/** Names of the repo's Actions secrets (values are never readable). */
+export async function listActionsSecrets(gh: GitHubTarget, repo: string): Promise<string[]> {
+  const j = await ghJSON<{ secrets: Array<{ name: string }> }>(
+    gh.token,
+    "GET",
+    `${GH_API}/repos/${gh.owner}/${repo}/actions/secrets?per_page=100`
+  );
+  return j.secrets.map((s) => s.name);
+}
+
+/**
+ * Create or overwrite Actions secrets. Values are sealed in the Worker with the repo's public
+ * key, so plaintext never leaves it. Needs the "Secrets: write" app permission (or a PAT with repo scope).
+ */
+export async function setActionsSecrets(
+  gh: GitHubTarget,
+  repo: string,
+  secrets: Record<string, string>
+): Promise<string[]> {
+  const base = `${GH_API}/repos/${gh.owner}/${repo}/actions/secrets`;
+  const key = await ghJSON<{ key_id: string; key: string }>(gh.token, "GET", `${base}/public-key`);
+  for (const [name, value] of Object.entries(secrets)) {
+    await ghJSON(gh.token, "PUT", `${base}/${name}`, {
+      encrypted_value: sealedBox(value, key.key),
+      key_id: key.key_id
     });
-    if (!put.ok) {
-      const body = await put.text();
-      json("GitHub PUT failed", { path, status: put.status, body });
-      throw new Error(`GitHub push failed for ${path}: ${put.status}`);
-    }
   }
+  json("GitHub secrets set", { repo, names: Object.keys(secrets) });
+  return Object.keys(secrets);
+}
+
+/** Compare pushed blobs against the base tree (one recursive tree read). */
+async function diffTree(
+  call: <T>(method: string, path: string) => Promise<T>,
+  baseTree: string,
+  entries: Array<[string, string]>,
+  blobs: Array<{ sha: string }>
+): Promise<FileChange[]> {
+  const tree = await call<{ tree: Array<{ path: string; type: string; sha: string }> }>(
+    "GET",
+    `/git/trees/${baseTree}?recursive=1`
+  );
+  const before = new Map(tree.tree.filter((e) => e.type === "blob").map((e) => [e.path, e.sha]));
+  const changes: FileChange[] = [];
+  entries.forEach(([path], i) => {
+    const sha = before.get(path);
+    if (sha !== blobs[i].sha) changes.push({ path, status: sha ? "modified" : "added" });
+  });
+  return changes;
+}
+
+function addedAll(entries: Array<[string, string]>): FileChange[] {
+  return entries.map(([path]) => ({ path, status: "added" }));
+}
+
+/** Commit at the tip of `branch`: null if the branch doesn't exist, "empty" if the repo has no commits. */
+async function headOf(token: string, base: string, branch: string): Promise<string | null | "empty"> {
+  const url = `${base}/git/ref/heads/${branch}`;
+  const res = await ghFetch(token, "GET", url);
+  if (res.status === 409) return "empty";
+  if (res.status === 404) return null;
+  if (!res.ok) throw await githubError(res, "GET", url);
+  return (await res.json<{ object: { sha: string } }>()).object.sha;
+}
+
+/** The repo's marker on its default branch, or null if it has none (or it isn't ours). */
+async function readMarker(token: string, base: string): Promise<LaunchwingMarker | null> {
+  const url = `${base}/contents/${MARKER_PATH}`;
+  const res = await ghFetch(token, "GET", url, { accept: "application/vnd.github.raw+json" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw await githubError(res, "GET", url);
+  try {
+    const marker = JSON.parse(await res.text());
+    return marker?.generator === "launchwing" ? (marker as LaunchwingMarker) : null;
+  } catch {
+    return null;
+  }
+}
 
-  return `https://github.com/${env.GITHUB_ORG}/${repo}`;
+function withSuffix(repo: string, n: number) {
+  const suffix = `-${n}`;
+  return repo.slice(0, 100 - suffix.length) + suffix;
 }
 
-function ghHeaders(token: string): HeadersInit {
-  return {
-    Authorization: `Bearer ${token}`,
-    "User-Agent": "LaunchWing-Orchestrator",
-    Accept: "application/vnd.github+json"
-  };
+function repoInfo(j: any, name: string, created: boolean): RepoInfo {
+  return { name, created, defaultBranch: j.default_branch || "main", url: j.html_url };
 }
+
 function b64(s: string) {
   return btoa(unescape(encodeURIComponent(s)));
 }
-function assertEnv(v: unknown, name: string) {
-  if (!v) throw new Error(`Missing env: ${name}`);
-}
\ No newline at end of file
+
+/** Base64 blob content as text, or null when it looks binary (NUL bytes or invalid UTF-8). */
+function decodeText(content: string): string | null {
+  const bytes = Uint8Array.from(atob(content.replace(/\n/g, "")), (c) => c.charCodeAt(0));
+  if (bytes.includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,151 @@
+import type { Env } from "../types";
+import { json as log } from "./log";
+import {
+  ghFetch,
+  ghJSON,
+  githubError,
+  GitHubForbiddenError,
+  GitHubValidationError,
+  GH_API
+} from "./githubClient";
+
+/** Installation tokens last an hour; renew this long before they expire. */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60_000;
+
+/** Where repo operations go and the token that may write there. */
+export type GitHubTarget = {
+  owner: string;
+  ownerType: "Organization" | "User";
+  token: string;
+  via: "app" | "pat";
+};
+
+// Per-isolate caches: installation ids don't change; tokens are reused until shortly before expiry.
+const installations = new Map<string, { id: number; ownerType: GitHubTarget["ownerType"] }>();
+const tokens = new Map<number, { token: string; expiresAt: number }>();
+
+/**
+ * Resolve auth for `owner` (default GITHUB_ORG). With GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY
+ * set, any account that installed the app gets an installation token; otherwise, or when
+ * GITHUB_ORG hasn't installed the app (or the App lookup fails), GITHUB_TOKEN is used for GITHUB_ORG.
+ */
+export async function githubTarget(env: Env, owner?: string): Promise<GitHubTarget> {
+  const target = owner || env.GITHUB_ORG;
+  if (!target) throw new Error("Missing env: GITHUB_ORG (or pass an owner)");
+  if (!/^[A-Za-z0-9](?:-?[A-Za-z0-9])*$/.test(target) || target.length > 39) {
+    throw new GitHubValidationError(`Invalid GitHub owner: ${target}`);
+  }
+
+  const pat = target === env.GITHUB_ORG ? env.GITHUB_TOKEN : undefined;
+  if (env.GITHUB_APP_ID && env.GITHUB_APP_PRIVATE_KEY) {
+    try {
+      const installation = await findInstallation(env, target);
+      if (installation) {
+        const token = await installationToken(env, installation.id);
+        return { owner: target, ownerType: installation.ownerType, token, via: "app" };
+      }
+      log("GitHub App not installed", { owner: target });
+    } catch (err: any) {
+      // A broken App (bad key, GitHub error) shouldn't take down GITHUB_ORG when a PAT can cover it.
+      if (!pat) throw err;
+      log("GitHub App auth failed, using GITHUB_TOKEN", { owner: target, error: String(err?.message || err) });
+    }
+  }
+
+  if (pat) {
+    return { owner: target, ownerType: "Organization", token: pat, via: "pat" };
+  }
+  if (env.GITHUB_APP_ID) throw new GitHubForbiddenError(`The LaunchWing GitHub App is not installed on ${target}`);
+  throw new Error(
+    `Missing GitHub auth for ${target}: set GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY, ` +
+      `or GITHUB_TOKEN (only for ${env.GITHUB_ORG || "GITHUB_ORG"})`
+  );
+}
+
+async function findInstallation(env: Env, owner: string) {
+  const cached = installations.get(owner.toLowerCase());
+  if (cached) return cached;
+
+  const jwt = await appJwt(env);
+  // Organizations and users have separate lookup endpoints.
+  for (const kind of ["orgs", "users"]) {
+    const url = `${GH_API}/${kind}/${owner}/installation`;
+    const res = await ghFetch(jwt, "GET", url);
+    if (res.status === 404) continue;
+    if (!res.ok) throw await githubError(res, "GET", url);
+    const j = await res.json<{ id: number; account?: { type?: string } }>();
+    const ownerType: GitHubTarget["ownerType"] = j.account?.type === "User" ? "User" : "Organization";
+    const found = { id: j.id, ownerType };
+    installations.set(owner.toLowerCase(), found);
+    return found;
+  }
+  return null;
+}
+
+async function installationToken(env: Env, installationId: number): Promise<string> {
+  const cached = tokens.get(installationId);
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return cached.token;
+
+  // Minting a token has no side effects beyond the token itself, so retrying is safe.
+  const j = await ghJSON<{ token: string; expires_at: string }>(
+    await appJwt(env),
+    "POST",
+    `${GH_API}/app/installations/${installationId}/access_tokens`,
+    undefined,
+    { idempotent: true }
+  );
+  tokens.set(installationId, { token: j.token, expiresAt: Date.parse(j.expires_at) });
+  return j.token;
+}
+
+/** RS256 app JWT; iat is backdated 60 s for clock drift and GitHub caps exp at 10 minutes. */
+async function appJwt(env: Env): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = b64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = b64url(JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: env.GITHUB_APP_ID }));
+  const key = await crypto.subtle.importKey(
+    "pkcs8",
+    pemToPkcs8(env.GITHUB_APP_PRIVATE_KEY!),
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+  return `${header}.${payload}.${b64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * GitHub hands out PKCS#1 keys ("BEGIN RSA PRIVATE KEY") but WebCrypto only imports PKCS#8,
+ * so wrap PKCS#1 in a PKCS#8 PrivateKeyInfo. PKCS#8 PEMs ("BEGIN PRIVATE KEY") pass through.
+ */
+function pemToPkcs8(pem: string): ArrayBuffer {
+  const normalized = pem.replace(/\\n/g, "\n"); // secrets pasted with escaped newlines
+  const body = normalized.replace(/-----(BEGIN|END)[^-]+-----/g, "").replace(/\s+/g, "");
+  const der = Uint8Array.from(atob(body), (c) => c.charCodeAt(0));
+  if (!normalized.includes("BEGIN RSA PRIVATE KEY")) return der.buffer;
+
+  // SEQUENCE { INTEGER 0, SEQUENCE { OID rsaEncryption, NULL }, OCTET STRING { pkcs1 } }
+  const version = [0x02, 0x01, 0x00];
+  const algorithm = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+  const key = [0x04, ...derLength(der.length), ...der];
+  const content = [...version, ...algorithm, ...key];
+  return Uint8Array.from([0x30, ...derLength(content.length), ...content]).buffer;
+}
+
+function derLength(n: number): number[] {
+  if (n < 0x80) return [n];
+  const bytes: number[] = [];
+  for (let v = n; v > 0; v >>= 8) bytes.unshift(v & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function b64url(input: string | Uint8Array): string {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
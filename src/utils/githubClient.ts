@@ -0,0 +1,238 @@
+import { json as log } from "./log";
+
+export const GH_API = "https://api.github.com";
+
+/** Tries per request, including the first. */
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_CAP_MS = 8_000;
+/** Longer rate-limit waits fail fast with GitHubRateLimitError instead of holding the request open. */
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+/** GitHub's advice for secondary rate limits that come without retry-after. */
+const SECONDARY_LIMIT_WAIT_MS = 60_000;
+/** Retried after 5xx and network errors; other methods only when the caller says they're safe. */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+/** Any failed GitHub call; `status` is GitHub's HTTP status. */
+export class GitHubError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body = ""
+  ) {
+    super(message);
+    this.name = "GitHubError";
+  }
+}
+
+export class GitHubNotFoundError extends GitHubError {
+  constructor(message: string, body?: string) {
+    super(message, 404, body);
+    this.name = "GitHubNotFoundError";
+  }
+}
+
+/** Missing permission (app or token scope), or an action GitHub doesn't allow for this account. */
+export class GitHubForbiddenError extends GitHubError {
+  constructor(message: string, body?: string) {
+    super(message, 403, body);
+    this.name = "GitHubForbiddenError";
+  }
+}
+
+export class GitHubRateLimitError extends GitHubError {
+  constructor(
+    message: string,
+    status: number,
+    readonly retryAfterMs: number,
+    body?: string
+  ) {
+    super(message, status, body);
+    this.name = "GitHubRateLimitError";
+  }
+}
+
+/** GitHub rejected the input (422), or it failed our own checks before any call. */
+export class GitHubValidationError extends GitHubError {
+  constructor(message: string, body?: string) {
+    super(message, 422, body);
+    this.name = "GitHubValidationError";
+  }
+}
+
+/** The target changed underneath us: a name is taken, or a branch moved during a push. */
+export class GitHubConflictError extends GitHubError {
+  constructor(message: string, body?: string) {
+    super(message, 409, body);
+    this.name = "GitHubConflictError";
+  }
+}
+
+// Per-isolate: when each token may call again after running out of its rate limit.
+const blockedUntil = new Map<string, number>();
+
+/**
+ * fetch() against the GitHub API with the shared headers, honouring rate limits: a token that
+ * ran out (x-ratelimit-remaining: 0) waits for x-ratelimit-reset, and 403/429 responses with
+ * retry-after or a secondary-limit message are retried after the wait. Rate-limited requests
+ * were not performed, so they're retried whatever the method. 5xx and network errors are
+ * retried with jittered exponential backoff, but only for idempotent requests. Other
+ * responses, including errors, are returned as they are.
+ */
+export async function ghFetch(
+  token: string,
+  method: string,
+  url: string,
+  opts: { body?: unknown; accept?: string; idempotent?: boolean } = {}
+): Promise<Response> {
+  const idempotent = opts.idempotent ?? IDEMPOTENT_METHODS.has(method);
+  const path = url.replace(GH_API, "");
+
+  for (let attempt = 1; ; attempt++) {
+    await waitForRateLimit(token, method, path);
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers: ghHeaders(token, opts.accept),
+        ...(opts.body === undefined ? {} : { body: JSON.stringify(opts.body) })
+      });
+    } catch (err: any) {
+      if (!idempotent || attempt >= MAX_ATTEMPTS) throw err;
+      log("GitHub network error, retrying", { method, path, attempt, error: String(err?.message || err) });
+      await sleep(backoff(attempt));
+      continue;
+    }
+
+    const limitedFor = await rateLimitWait(res, token);
+    if (limitedFor !== null) {
+      if (limitedFor > MAX_RATE_LIMIT_WAIT_MS || attempt >= MAX_ATTEMPTS) {
+        const body = await res.text();
+        throw new GitHubRateLimitError(
+          `GitHub rate limit hit on ${method} ${path}; retry in ${Math.ceil(limitedFor / 1000)}s`,
+          res.status,
+          limitedFor,
+          body
+        );
+      }
+      log("GitHub rate limited, waiting", { method, path, attempt, waitMs: limitedFor });
+      await sleep(limitedFor + Math.random() * 1000);
+      continue;
+    }
+
+    if (res.status >= 500 && idempotent && attempt < MAX_ATTEMPTS) {
+      log("GitHub server error, retrying", { method, path, attempt, status: res.status });
+      await sleep(backoff(attempt));
+      continue;
+    }
+    return res;
+  }
+}
+
+/** ghFetch that parses the JSON body of a 2xx response and throws a typed GitHubError otherwise. */
+export async function ghJSON<T>(
+  token: string,
+  method: string,
+  url: string,
+  body?: unknown,
+  opts: { idempotent?: boolean } = {}
+): Promise<T> {
+  const res = await ghFetch(token, method, url, { body, ...opts });
+  if (!res.ok) throw await githubError(res, method, url);
+  return await res.json<T>();
+}
+
+/** Typed error for a failed response (consumes the body). */
+export async function githubError(res: Response, method: string, url: string): Promise<GitHubError> {
+  const body = await res.text();
+  const path = url.replace(GH_API, "");
+  log("GitHub request failed", { method, url, status: res.status, body });
+
+  let detail = "";
+  try {
+    const j = JSON.parse(body) as { message?: string; errors?: Array<{ message?: string; code?: string }> };
+    const reasons = (j.errors || []).map((e) => e.message || e.code).filter(Boolean);
+    detail = [j.message, ...reasons].filter(Boolean).join("; ");
+  } catch {
+    detail = body.slice(0, 200);
+  }
+  const message = `GitHub ${method} ${path} failed: ${res.status}${detail ? ` ${detail}` : ""}`;
+
+  switch (res.status) {
+    case 404:
+      return new GitHubNotFoundError(message, body);
+    case 403:
+      return new GitHubForbiddenError(message, body);
+    case 409:
+      return new GitHubConflictError(message, body);
+    case 422:
+      return new GitHubValidationError(message, body);
+    default:
+      return new GitHubError(message, res.status, body);
+  }
+}
+
+/**
+ * HTTP status for a handler to answer with when `err` came from GitHub: the matching 4xx for
+ * typed errors and 502 for anything else GitHub failed at. Null for non-GitHub errors.
+ */
+export function githubErrorStatus(err: unknown): number | null {
+  if (err instanceof GitHubRateLimitError) return 429;
+  if (err instanceof GitHubNotFoundError) return 404;
+  if (err instanceof GitHubForbiddenError) return 403;
+  if (err instanceof GitHubConflictError) return 409;
+  if (err instanceof GitHubValidationError) return 422;
+  if (err instanceof GitHubError) return 502;
+  return null;
+}
+
+export function ghHeaders(token: string, accept = "application/vnd.github+json"): HeadersInit {
+  return {
+    Authorization: `Bearer ${token}`,
+    "User-Agent": "LaunchWing-Orchestrator",
+    Accept: accept
+  };
+}
+
+async function waitForRateLimit(token: string, method: string, path: string) {
+  const wait = (blockedUntil.get(token) ?? 0) - Date.now();
+  if (wait <= 0) return;
+  if (wait > MAX_RATE_LIMIT_WAIT_MS) {
+    throw new GitHubRateLimitError(
+      `GitHub rate limit exhausted before ${method} ${path}; retry in ${Math.ceil(wait / 1000)}s`,
+      429,
+      wait
+    );
+  }
+  log("GitHub rate limit exhausted, waiting for reset", { method, path, waitMs: wait });
+  await sleep(wait);
+}
+
+/**
+ * Record the token's rate-limit state from `res`, and return how long to wait before retrying
+ * when `res` itself was rate limited (null when it wasn't).
+ */
+async function rateLimitWait(res: Response, token: string): Promise<number | null> {
+  const remaining = res.headers.get("x-ratelimit-remaining");
+  const reset = Number(res.headers.get("x-ratelimit-reset"));
+  const resetIn = remaining === "0" && reset ? Math.max(0, reset * 1000 - Date.now()) : null;
+  if (resetIn !== null) blockedUntil.set(token, Date.now() + resetIn);
+
+  if (res.status !== 403 && res.status !== 429) return null;
+  const retryAfter = Number(res.headers.get("retry-after"));
+  if (retryAfter > 0) return retryAfter * 1000;
+  if (resetIn !== null) return resetIn;
+  // Secondary limits come as a 403 with only a message to tell them apart from a real 403.
+  const body = await res.clone().text();
+  return /secondary rate limit|abuse detection/i.test(body) ? SECONDARY_LIMIT_WAIT_MS : null;
+}
+
+/** Full jitter: anywhere between 0 and the exponential step, so parallel retries spread out. */
+function backoff(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,139 @@
+import type { Env } from "../types";
+import type { IR } from "@t/ir";
+import {
+  createD1Database,
+  createKVNamespace,
+  findD1Database,
+  findKVNamespace,
+  queryD1,
+  type WorkerBinding
+} from "./cloudflare";
+import { json as log } from "./log";
+
+/** The table `wrangler d1 migrations apply` uses, so both agree on what has been applied. */
+const MIGRATIONS_TABLE = "d1_migrations";
+
+export type ProvisionedResource = {
+  /** Binding name from the IR, e.g. DB. */
+  binding: string;
+  /** D1 database name or KV namespace title on the account. */
+  name: string;
+  id: string;
+  created: boolean;
+};
+
+export type ProvisionedBindings = {
+  /** `migrations`: the files applied by this run (already applied ones are skipped). */
+  d1: Array<ProvisionedResource & { migrations: string[] }>;
+  kv: ProvisionedResource[];
+};
+
+/**
+ * Make sure every D1 database and KV namespace in `ir.bindings` exists for `appName`, then apply
+ * the bundle's pending migrations to each database. Resources are named `<appName>-<database or
+ * binding>`, so deploying the same app again finds them instead of creating new ones, and a
+ * migration already recorded in the database's d1_migrations table isn't run twice.
+ */
+export async function provisionBindings(
+  env: Env,
+  appName: string,
+  ir: IR | undefined,
+  files: Record<string, string>,
+  onLog: (message: string) => Promise<void> = async () => {}
+): Promise<ProvisionedBindings> {
+  const result: ProvisionedBindings = { d1: [], kv: [] };
+  const d1 = ir?.bindings?.D1 || [];
+  const kv = ir?.bindings?.KV || [];
+
+  for (const binding of d1) {
+    const name = resourceName(appName, binding.database || binding.name);
+    const existing = await findD1Database(env, name);
+    const db = existing || (await createD1Database(env, name));
+    await onLog(`${existing ? "Using" : "Created"} D1 database ${name} as ${binding.name}`);
+
+    const pending = migrationFiles(binding.name, files, d1.length === 1);
+    const migrations = await applyMigrations(env, db.uuid, pending);
+    if (migrations.length) await onLog(`Applied ${migrations.join(", ")} to ${name}`);
+    result.d1.push({ binding: binding.name, name, id: db.uuid, created: !existing, migrations });
+  }
+
+  for (const binding of kv) {
+    const name = resourceName(appName, binding.name);
+    const existing = await findKVNamespace(env, name);
+    const ns = existing || (await createKVNamespace(env, name));
+    await onLog(`${existing ? "Using" : "Created"} KV namespace ${name} as ${binding.name}`);
+    result.kv.push({ binding: binding.name, name, id: ns.id, created: !existing });
+  }
+
+  if (d1.length || kv.length) {
+    log("bindings provisioned", {
+      appName,
+      created: [...result.d1, ...result.kv].filter((r) => r.created).map((r) => r.name),
+      migrations: result.d1.flatMap((r) => r.migrations)
+    });
+  }
+  return result;
+}
+
+/** The provisioned resources as Worker script bindings. */
+export function workerBindings(provisioned: ProvisionedBindings): WorkerBinding[] {
+  return [
+    ...provisioned.d1.map((r): WorkerBinding => ({ type: "d1", name: r.binding, id: r.id })),
+    ...provisioned.kv.map((r): WorkerBinding => ({ type: "kv_namespace", name: r.binding, namespace_id: r.id }))
+  ];
+}
+
+/** The provisioned resources as Pages project bindings (binding name → id), see setPagesBindings. */
+export function pagesBindings(provisioned: ProvisionedBindings) {
+  return {
+    d1: Object.fromEntries(provisioned.d1.map((r) => [r.binding, r.id])),
+    kv: Object.fromEntries(provisioned.kv.map((r) => [r.binding, r.id]))
+  };
+}
+
+/**
+ * SQL files for one D1 binding, in name order: `migrations/<binding>/*.sql` (binding lowercased,
+ * as stage2 plans them), plus `migrations/*.sql` when the app has only this database.
+ */
+function migrationFiles(
+  binding: string,
+  files: Record<string, string>,
+  only: boolean
+): Array<[string, string]> {
+  const dir = `migrations/${binding.toLowerCase()}/`;
+  return Object.entries(files)
+    .filter(([path]) => path.endsWith(".sql"))
+    .filter(([path]) => path.startsWith(dir) || (only && /^migrations\/[^/]+$/.test(path)))
+    .map(([path, sql]): [string, string] => [path.slice(path.lastIndexOf("/") + 1), sql])
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+/** Run the migrations MIGRATIONS_TABLE doesn't list yet, recording each; returns their names. */
+async function applyMigrations(env: Env, databaseId: string, migrations: Array<[string, string]>) {
+  if (!migrations.length) return [];
+  await queryD1(
+    env,
+    databaseId,
+    `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT UNIQUE, ` +
+      "applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL)"
+  );
+  const [rows] = await queryD1<{ name: string }>(env, databaseId, `SELECT name FROM ${MIGRATIONS_TABLE}`);
+  const applied = new Set((rows || []).map((r) => r.name));
+
+  const ran: string[] = [];
+  for (const [name, sql] of migrations) {
+    if (applied.has(name)) continue;
+    // One request, so the migration and its record go together. Params don't mix with several
+    // statements, so the name is quoted inline; a trailing comment would swallow an appended `;`.
+    const body = sql.trimEnd();
+    const record = `INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES ('${name.replace(/'/g, "''")}');`;
+    await queryD1(env, databaseId, `${body}${body.endsWith(";") ? "" : "\n;"}\n${record}`);
+    ran.push(name);
+  }
+  return ran;
+}
+
+/** `<appName>-<label>`, lowercase with dashes; D1 and KV names share these rules. */
+function resourceName(appName: string, label: string): string {
+  return `${appName}-${label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}`.slice(0, 63);
+}
@@ -0,0 +1,179 @@
+import type { Env } from "../types";
+import type { IR } from "@t/ir";
+import {
+  ensureRepo,
+  listActionsSecrets,
+  markerFile,
+  openPullRequest,
+  pushFiles,
+  setActionsSecrets,
+  validateRepoName,
+  MARKER_PATH,
+  type CollisionPolicy,
+  type FileChange,
+  type PushResult
+} from "./github";
+import { githubTarget, type GitHubTarget } from "./githubAuth";
+import { GitHubValidationError } from "./githubClient";
+import { createDeployToken } from "./cloudflare";
+import { DEPLOY_WORKFLOW_PATH } from "./sanitizeGeneratedFiles";
+import { json as log } from "./log";
+
+/** "overwrite": commit straight to the default branch; "pr": commit to a branch and open a pull request. */
+export type PublishMode = "overwrite" | "pr";
+
+export type PublishResult = PushResult & {
+  owner: string;
+  /** Repo actually written to; differs from the requested name when a suffix was added. */
+  repo: string;
+  mode: PublishMode;
+  pullRequest?: { number: number; url: string };
+  /** Actions secrets written by this publish (names only). */
+  secrets: string[];
+};
+
+/** Enough of a smoke result (stage5's SmokeResult, or the single pipeline's skipped one) for the PR body. */
+type SmokeSummary = {
+  passed: boolean;
+  skipped?: boolean;
+  logs: string[];
+  probes?: Array<{ method: string; path: string; ok: boolean; status?: number; exception?: string }>;
+};
+
+/**
+ * Create the repo if needed and push `files`. Without an explicit `mode`, a repo that already
+ * existed gets a `launchwing/<generationId>` branch and a pull request, so hand edits on the
+ * default branch are never overwritten; a new repo gets the files on its default branch.
+ * Every push carries the `.launchwing.json` ownership marker that ensureRepo checks on reuse
+ * (and, given `ir`, the IR that /github-import restores).
+ * Bundles with the deploy workflow get its Actions secrets before the push triggers it.
+ */
+export async function publishFiles(
+  env: Env,
+  repo: string,
+  files: Record<string, string>,
+  opts: {
+    message: string;
+    generationId: string;
+    ideaId?: string;
+    /** GitHub org or user; default GITHUB_ORG. */
+    owner?: string;
+    mode?: PublishMode;
+    onCollision?: CollisionPolicy;
+    isPrivate?: boolean;
+    ir?: IR;
+    smoke?: SmokeSummary;
+  }
+): Promise<PublishResult> {
+  // Checked before githubTarget, which already calls GitHub (installation lookup, token mint).
+  const invalid = validateRepoName(repo);
+  if (invalid) throw new GitHubValidationError(invalid);
+  const gh = await githubTarget(env, opts.owner);
+  const info = await ensureRepo(gh, repo, {
+    isPrivate: opts.isPrivate,
+    onCollision: opts.onCollision,
+    ideaId: opts.ideaId
+  });
+  const mode = opts.mode || (info.created ? "overwrite" : "pr");
+  const secrets = files[DEPLOY_WORKFLOW_PATH] ? await provisionDeploySecrets(env, gh, info.name) : [];
+  const marked = {
+    ...files,
+    [MARKER_PATH]: markerFile({
+      ideaId: opts.ideaId ?? null,
+      generationId: opts.generationId,
+      ...(opts.ir ? { ir: opts.ir } : {})
+    })
+  };
+
+  if (mode === "overwrite") {
+    const push = await pushFiles(gh, info.name, marked, opts.message);
+    return { ...push, owner: gh.owner, repo: info.name, mode, secrets };
+  }
+
+  const branch = `launchwing/${opts.generationId}`;
+  // The marker always changes (new generationId); ignoring it means a regeneration identical to
+  // the default branch pushes nothing, so no empty branch is left behind.
+  const push = await pushFiles(gh, info.name, marked, opts.message, {
+    branch,
+    from: info.defaultBranch,
+    ignore: [MARKER_PATH]
+  });
+  if (push.commit === push.parent) {
+    log("publish: regeneration matches the default branch, no PR", { repo: info.name, branch });
+    return { ...push, owner: gh.owner, repo: info.name, mode, secrets };
+  }
+
+  const pullRequest = await openPullRequest(gh, info.name, {
+    head: branch,
+    base: info.defaultBranch,
+    title: opts.ir ? `LaunchWing regeneration: ${opts.ir.name}` : `LaunchWing update ${opts.generationId}`,
+    body: pullRequestBody(opts.generationId, push.changes, opts.ir, opts.smoke)
+  });
+  log("publish: opened PR", { repo: info.name, branch, pr: pullRequest.number });
+  return { ...push, owner: gh.owner, repo: info.name, mode, pullRequest, secrets };
+}
+
+/**
+ * Give the deploy workflow the CLOUDFLARE_* secrets it reads. Only missing secrets are written,
+ * so values the repo owner replaced survive regeneration and no extra tokens are minted. The
+ * token is a fresh per-repo one when CLOUDFLARE_ADMIN_TOKEN is set, else the shared CLOUDFLARE_API_TOKEN.
+ */
+async function provisionDeploySecrets(env: Env, gh: GitHubTarget, repo: string): Promise<string[]> {
+  if (!env.CLOUDFLARE_ACCOUNT_ID) {
+    log("publish: CLOUDFLARE_ACCOUNT_ID unset, deploy secrets not provisioned", { repo });
+    return [];
+  }
+  const existing = new Set(await listActionsSecrets(gh, repo));
+  const values: Record<string, string> = {};
+  if (!existing.has("CLOUDFLARE_ACCOUNT_ID")) values.CLOUDFLARE_ACCOUNT_ID = env.CLOUDFLARE_ACCOUNT_ID;
+  if (!existing.has("CLOUDFLARE_API_TOKEN")) {
+    if (env.CLOUDFLARE_ADMIN_TOKEN) {
+      values.CLOUDFLARE_API_TOKEN = (await createDeployToken(env, `${gh.owner}-${repo}`)).value;
+    } else if (env.CLOUDFLARE_API_TOKEN) {
+      values.CLOUDFLARE_API_TOKEN = env.CLOUDFLARE_API_TOKEN;
+    } else {
+      log("publish: no Cloudflare token to provision", { repo });
+    }
+  }
+  return Object.keys(values).length ? setActionsSecrets(gh, repo, values) : [];
+}
+
+function pullRequestBody(generationId: string, changes: FileChange[], ir?: IR, smoke?: SmokeSummary): string {
+  const lines = [`Generated by LaunchWing (generation \`${generationId}\`). Review and merge to keep it.`, ""];
+
+  if (ir) {
+    lines.push("## App", "", `- **${ir.name}** (\`${ir.app_type}\`, IR v${ir.version})`);
+    lines.push(`- Pages: ${ir.pages.map((p) => `\`${p}\``).join(", ")}`);
+    if (ir.api_routes.length) {
+      lines.push(`- API routes: ${ir.api_routes.map((r) => `\`${r.method} ${r.path}\``).join(", ")}`);
+    }
+    for (const kind of ["D1", "KV"] as const) {
+      const bindings = ir.bindings?.[kind] || [];
+      if (bindings.length) lines.push(`- ${kind}: ${bindings.map((b) => `\`${b.name}\``).join(", ")}`);
+    }
+    if (ir.features?.length) lines.push(`- Features: ${ir.features.join("; ")}`);
+    lines.push("");
+  }
+
+  if (smoke) {
+    const verdict = smoke.skipped ? "⏭️ skipped" : smoke.passed ? "✅ passed" : "❌ failed";
+    lines.push("## Smoke tests", "", verdict, "");
+    if (smoke.probes?.length) {
+      lines.push("| | Request | Status |", "|---|---|---|");
+      for (const p of smoke.probes) {
+        const status = p.exception ? `exception: ${p.exception}` : String(p.status ?? "—");
+        lines.push(`| ${p.ok ? "✅" : "❌"} | \`${p.method} ${p.path}\` | ${status.replace(/\|/g, "\\|")} |`);
+      }
+      lines.push("");
+    } else if (smoke.logs.length) {
+      lines.push(...smoke.logs.map((l) => `- ${l}`), "");
+    }
+  }
+
+  lines.push(`## Changed files (${changes.length})`, "");
+  for (const c of [...changes].sort((a, b) => a.path.localeCompare(b.path))) {
+    lines.push(`- ${c.status === "added" ? "➕ added" : "✏️ modified"} \`${c.path}\``);
+  }
+  lines.push("", "Files not listed are unchanged; files the generation doesn't produce are kept as they are.");
+  return lines.join("\n");
+}
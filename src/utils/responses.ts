@@ -0,0 +1,46 @@
+import type { Env } from "../types";
+import { deploymentRegistry } from "./deployments";
+import { json as log } from "./log";
+
+export type Emit = (event: unknown) => Promise<void>;
+
+/**
+ * Run `fn` in the background, streaming each emitted event as one NDJSON line. If it throws,
+ * the last line is `errorEvent(err)` (default `{ event: "error", message }`), logged as `${name} stream error`.
+ */
+export function ndjson(
+  name: string,
+  fn: (emit: Emit) => Promise<void>,
+  errorEvent: (err: any) => unknown = (err) => ({ event: "error", message: String(err?.message || err) })
+): Response {
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  const emit: Emit = (event) => writer.write(encoder.encode(JSON.stringify(event) + "\n"));
+  (async () => {
+    try {
+      await fn(emit);
+    } catch (err: any) {
+      log(`${name} stream error`, { error: String(err?.message || err) });
+      await emit(errorEvent(err));
+    }
+    await writer.close();
+  })();
+
+  return new Response(readable, {
+    headers: {
+      "content-type": "application/x-ndjson; charset=utf-8",
+      "cache-control": "no-store"
+    }
+  });
+}
+
+/** The deployment registry, or the 501 to answer with when DEPLOYMENTS isn't bound. */
+export function requireRegistry(env: Env) {
+  const registry = deploymentRegistry(env);
+  if (registry) return registry;
+  return new Response(JSON.stringify({ error: "Deployment tracking is not configured (DEPLOYMENTS binding)" }), {
+    status: 501,
+    headers: { "content-type": "application/json" }
+  });
+}
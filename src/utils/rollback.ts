@@ -0,0 +1,59 @@
+import type { Env } from "../types";
+import { emptyEnv, workerEnvBindings } from "./appEnv";
+import { rollbackPagesDeployment, uploadModuleWorker } from "./cloudflare";
+import { deploymentRegistry, startDeployment, type DeploymentRecord } from "./deployments";
+import { json as log } from "./log";
+
+/**
+ * Make `from`, an earlier deployment, live again. It's recorded as a new deployment of the same
+ * target with `rollbackOf`, carrying over the generation, file hashes and smoke result. Pages
+ * projects use Cloudflare's rollback endpoint, which promotes the old deployment in place; a
+ * Worker script gets its stored bundle uploaded again, with the bindings it had and the app's
+ * current variables (PUT /apps/:name/env). A failure
+ * doesn't throw: the returned record is `failed`, with the error.
+ */
+export async function rollbackTo(env: Env, from: DeploymentRecord): Promise<DeploymentRecord> {
+  const { generationId, files, smoke, worker } = from;
+  const tracker = await startDeployment(env, from.kind, from.target, {
+    generationId,
+    files,
+    smoke,
+    worker,
+    rollbackOf: from.id
+  });
+  try {
+    if (from.kind === "pages") {
+      if (!from.pagesDeploymentId) throw new Error(`Deployment ${from.id} has no Pages deployment`);
+      await tracker.log(`Rolling back ${from.target} to Pages deployment ${from.pagesDeploymentId}`);
+      const promoted = await rollbackPagesDeployment(env, from.target, from.pagesDeploymentId);
+      await tracker.deployed(promoted.url, promoted.id);
+    } else {
+      if (!worker || !files) throw new Error(`Deployment ${from.id} has no stored bundle`);
+      const stored = await deploymentRegistry(env)!.getFiles(from.target, [...new Set(Object.values(files))]);
+      const missing = Object.keys(files).filter((path) => stored[files[path]] === undefined);
+      if (missing.length) throw new Error(`Stored bundle of ${from.id} is missing ${missing.join(", ")}`);
+
+      const modules: Record<string, string> = {};
+      const assets: Record<string, string> = {};
+      for (const [path, hash] of Object.entries(files)) {
+        (worker.modules.includes(path) ? modules : assets)[path] = stored[hash];
+      }
+      const appEnv = (await deploymentRegistry(env)!.getEnv(from.target)) || emptyEnv(from.target);
+      const vars = await workerEnvBindings(env, appEnv);
+      await tracker.stage("uploading", `Uploading the bundle of deployment ${from.id} again`);
+      const result = await uploadModuleWorker(env, from.target, {
+        modules,
+        mainModule: worker.mainModule,
+        assets,
+        bindings: [...worker.bindings, ...vars]
+      });
+      await tracker.deployed(result.url);
+    }
+  } catch (err) {
+    await tracker.failed(err);
+  }
+  const record = tracker.record();
+  const { id, stage, error } = record;
+  log("rollback", { target: from.target, from: from.id, id, stage, error });
+  return record;
+}
@@ -3,6 +3,9 @@ import type { Env } from "../types";
 
 type Files = Record<string, string>;
 
+/** Deploy workflow added to every bundle; needs the CLOUDFLARE_* Actions secrets (see publishFiles). */
+export const DEPLOY_WORKFLOW_PATH = ".github/workflows/deploy-pages.yml";
+
 function normalizePath(p: string) {
   return p.replace(/^\.?\//, "").replace(/\\/g, "/");
 }
@@ -43,8 +46,8 @@ export function sanitizeGeneratedFiles(
   const orchestrator = env.ORCHESTRATOR_URL || "https://your-orchestrator.workers.dev";
   out["_worker.ts"] = pagesWorkerTs(orchestrator);
 
-  // Inject Pages deploy workflow template (consumer must keep secrets in its repo)
-  out[".github/workflows/deploy-pages.yml"] = pagesWorkflowTemplate();
+  // Inject Pages deploy workflow template (publishFiles provisions its secrets)
+  out[DEPLOY_WORKFLOW_PATH] = pagesWorkflowTemplate();
 
   // .gitignore
   if (!out[".gitignore"]) {
@@ -1,7 +1,142 @@
-import type { IR } from "@t/ir";
+import { IR_SCHEMA, type IR } from "@t/ir";
+import { routeFile } from "../generation/stage2-IRtoManifest";
 
-export function validateIR(ir: IR): { valid: true } | { valid: false; error: string } {
-  // TODO: implement JSON Schema check; accept stub for now
-  if (!ir || !ir.app_type || !ir.name) return { valid: false, error: "invalid IR" };
-  return { valid: true };
-}
\ No newline at end of file
+/**
+ * Minimal JSON Schema subset (draft-07 keywords we actually use).
+ * Workers have no `ajv`, and the IR schema is small enough to check by hand.
+ */
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+  enum?: readonly unknown[];
+  required?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  description?: string;
+};
+
+export type SchemaError = { path: string; message: string };
+
+/** Validate `value` against `schema`, collecting every error rather than stopping at the first. */
+export function validateSchema(schema: JsonSchema, value: unknown, path = "$"): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    fail(`expected ${schema.type}, got ${describe(value)}`);
+    return errors;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push({ path: `${path}.${key}`, message: "is required" });
+    }
+    const props = schema.properties || {};
+    for (const [key, v] of Object.entries(value)) {
+      if (props[key]) {
+        errors.push(...validateSchema(props[key], v, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateSchema(schema.additionalProperties, v, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** Validate an IR against IR_SCHEMA; run upgradeIR first when the IR may be from an older version. */
+export function validateIR(
+  ir: unknown
+): { valid: true; ir: IR } | { valid: false; error: string; errors: SchemaError[] } {
+  const errors = validateSchema(IR_SCHEMA, ir);
+  if (!errors.length) errors.push(...duplicateRoutes(ir as IR));
+  if (errors.length) return { valid: false, error: formatSchemaErrors(errors), errors };
+  return { valid: true, ir: ir as IR };
+}
+
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map((e) => `${e.path} ${e.message}`).join("; ");
+}
+
+/**
+ * Uniqueness across two fields isn't expressible in our schema subset, so check it here. Routes
+ * that match the same URLs (param names aside) or would share a route module are duplicates.
+ */
+function duplicateRoutes(ir: IR): SchemaError[] {
+  const patterns = new Map<string, string>();
+  const files = new Map<string, string>();
+  const errors: SchemaError[] = [];
+  ir.api_routes.forEach((r, i) => {
+    const key = `${r.method} ${r.path}`;
+    const pattern = `${r.method} ${r.path.replace(/\/:[^/]+/g, "/:")}`;
+    const file = routeFile(r.path, r.method);
+    const same = patterns.get(pattern);
+    const shared = files.get(file);
+    if (same) {
+      errors.push({ path: `$.api_routes[${i}]`, message: `duplicates ${same}` });
+    } else if (shared) {
+      errors.push({ path: `$.api_routes[${i}]`, message: `would share ${file} with ${shared}; rename one` });
+    }
+    patterns.set(pattern, same ?? key);
+    files.set(file, shared ?? key);
+  });
+  return errors;
+}
+
+function matchesType(type: NonNullable<JsonSchema["type"]>, v: unknown): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(v);
+    case "array":
+      return Array.isArray(v);
+    case "integer":
+      return Number.isInteger(v);
+    case "null":
+      return v === null;
+    default:
+      return typeof v === type;
+  }
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function describe(v: unknown): string {
+  if (v === null) return "null";
+  return Array.isArray(v) ? "array" : typeof v;
+}
@@ -0,0 +1,36 @@
+import nacl from "tweetnacl";
+import { blake2b } from "blakejs";
+
+/**
+ * libsodium's crypto_box_seal, which GitHub requires for Actions secrets: encrypt to
+ * `publicKey` (base64 X25519) with a throwaway key pair. Output is base64 of
+ * ephemeral public key || crypto_box(message, nonce, publicKey, ephemeral secret key),
+ * where nonce = BLAKE2b-192(ephemeral public key || publicKey).
+ */
+export function sealedBox(message: string, publicKey: string): string {
+  const recipient = fromB64(publicKey);
+  if (recipient.length !== nacl.box.publicKeyLength) throw new Error("Sealed box: public key must be 32 bytes");
+
+  const ephemeral = nacl.box.keyPair();
+  const nonce = blake2b(concat(ephemeral.publicKey, recipient), undefined, nacl.box.nonceLength);
+  const boxed = nacl.box(new TextEncoder().encode(message), nonce, recipient, ephemeral.secretKey);
+  ephemeral.secretKey.fill(0);
+  return toB64(concat(ephemeral.publicKey, boxed));
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+function fromB64(s: string): Uint8Array {
+  return Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+}
+
+function toB64(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin);
+}
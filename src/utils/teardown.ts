@@ -0,0 +1,127 @@
+import type { Env } from "../types";
+import {
+  deleteCustomHostname,
+  deleteD1Database,
+  deleteKVNamespace,
+  deletePagesProject,
+  deleteWorkerRoute,
+  deleteWorkerScript
+} from "./cloudflare";
+import { deploymentRegistry, type DeploymentKind, type DeploymentRecord } from "./deployments";
+import { json as log } from "./log";
+
+/** Hours a sandbox lives after its last deployment, unless SANDBOX_TTL_HOURS says otherwise. */
+const DEFAULT_TTL_HOURS = 72;
+
+export type RemovedSandbox = {
+  kind: DeploymentKind;
+  /** Pages project or Worker script name. */
+  target: string;
+  lastDeployedAt: string;
+  deploymentIds: string[];
+  /** False when Cloudflare no longer had it (deleted by hand, or the deploy never created it). */
+  existed: boolean;
+  /** Ids of the D1 databases and KV namespaces provisioned for it, deleted along with it. */
+  resources?: { d1: string[]; kv: string[] };
+  /** Custom hostnames that were attached to it, detached along with it. */
+  domains?: string[];
+};
+
+export type TeardownRecord = {
+  at: string;
+  ttlHours: number;
+  removed: RemovedSandbox[];
+  failed: Array<{ kind: DeploymentKind; target: string; error: string }>;
+  /** Expired targets left alone because one of their deployments is kept. */
+  kept: string[];
+  /** Expired targets LaunchWing didn't create (a deploy reused them); they are never deleted. */
+  skipped: string[];
+};
+
+/**
+ * Delete every sandbox Pages project and Worker script whose last deployment is older than the
+ * TTL, with the D1 databases and KV namespaces provisioned for it, its custom domains and its
+ * variables, unless one of its deployments is kept (POST /deployments/:id/keep). Only what a
+ * deployment recorded as `created` goes: a project, script, database or namespace that already
+ * existed when LaunchWing deployed to it is left in place. Each target's records
+ * get `removedAt`, and the run itself is saved in the registry. A failed deletion is recorded and
+ * retried on the next run; it doesn't stop the others.
+ */
+export async function teardownExpiredSandboxes(env: Env, now = Date.now()): Promise<TeardownRecord> {
+  const registry = deploymentRegistry(env);
+  if (!registry) throw new Error("Missing binding: DEPLOYMENTS");
+  const ttlHours = sandboxTtlHours(env);
+  const cutoff = now - ttlHours * 3_600_000;
+  const at = new Date(now).toISOString();
+  const teardown: TeardownRecord = { at, ttlHours, removed: [], failed: [], kept: [], skipped: [] };
+
+  for (const { kind, target, lastDeployedAt } of await registry.liveTargets()) {
+    if (Date.parse(lastDeployedAt) > cutoff) continue;
+    const records = (await registry.history(target)).filter((r) => r.kind === kind && !r.removedAt);
+    if (records.some((r) => r.kept)) {
+      teardown.kept.push(target);
+      continue;
+    }
+    if (!records.some((r) => r.created)) {
+      teardown.skipped.push(target);
+      continue;
+    }
+
+    try {
+      const remove = kind === "pages" ? deletePagesProject : deleteWorkerScript;
+      const existed = await remove(env, target);
+      // The app goes first: its bindings would otherwise point at deleted resources.
+      const d1 = createdIds(records, "d1");
+      const kv = createdIds(records, "kv");
+      for (const id of d1) await deleteD1Database(env, id);
+      for (const id of kv) await deleteKVNamespace(env, id);
+      // A Pages project's domains go with it; a Worker's live on the custom hostname zone.
+      const domains = await registry.domains(target);
+      for (const domain of domains) {
+        if (env.CUSTOM_HOSTNAME_ZONE_ID && domain.routeId) {
+          await deleteWorkerRoute(env, env.CUSTOM_HOSTNAME_ZONE_ID, domain.routeId);
+        }
+        if (env.CUSTOM_HOSTNAME_ZONE_ID && domain.customHostnameId) {
+          await deleteCustomHostname(env, env.CUSTOM_HOSTNAME_ZONE_ID, domain.customHostnameId);
+        }
+        await registry.deleteDomain(domain.hostname);
+      }
+      await registry.deleteEnv(target);
+
+      const deploymentIds = records.map((r) => r.id);
+      await registry.markRemoved(kind, target, at);
+      teardown.removed.push({
+        kind,
+        target,
+        lastDeployedAt,
+        deploymentIds,
+        existed,
+        ...(d1.length || kv.length ? { resources: { d1, kv } } : {}),
+        ...(domains.length ? { domains: domains.map((d) => d.hostname) } : {})
+      });
+    } catch (err: any) {
+      teardown.failed.push({ kind, target, error: String(err?.message || err) });
+    }
+  }
+
+  if (teardown.removed.length || teardown.failed.length) await registry.recordTeardown(teardown);
+  log("sandbox teardown", {
+    ttlHours,
+    removed: teardown.removed.map((r) => r.target),
+    failed: teardown.failed,
+    kept: teardown.kept,
+    skipped: teardown.skipped
+  });
+  return teardown;
+}
+
+/** Resources some deployment of the target created; later deploys find them by name instead. */
+function createdIds(records: DeploymentRecord[], type: "d1" | "kv"): string[] {
+  const refs = records.flatMap((r) => r.resources?.[type] || []);
+  return [...new Set(refs.filter((ref) => ref.created).map((ref) => ref.id))];
+}
+
+function sandboxTtlHours(env: Env): number {
+  const hours = Number(env.SANDBOX_TTL_HOURS);
+  return env.SANDBOX_TTL_HOURS && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+}
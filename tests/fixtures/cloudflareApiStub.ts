@@ -0,0 +1,437 @@
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** What the stand-in has received, for assertions. */
+export type StubState = {
+  token: string;
+  accountId: string;
+  subdomain: string;
+  /** Asset contents by hash, decoded from base64, across all uploads. */
+  assets: Map<string, string>;
+  scripts: Map<string, { metadata: any; modules: Record<string, { type: string; source: string }> }>;
+  workersDev: Set<string>;
+  pagesProjects: Map<string, { name: string; production_branch: string; deployment_configs?: any }>;
+  /** Pages assets by hash, decoded from base64. */
+  pagesAssets: Map<string, { content: string; contentType: string }>;
+  pagesDeployments: Array<{
+    id: string;
+    project: string;
+    manifest: Record<string, string>;
+    branch?: string;
+    worker?: string;
+    config: Record<string, string>;
+    /** What GET …/deployments/:id reports; tests move it along. */
+    latest_stage: { name: string; status: string; started_on: string | null; ended_on: string | null };
+    /** Build log lines for …/deployments/:id/history/logs. */
+    logs: Array<{ ts: string; line: string }>;
+  }>;
+  /** Pages rollbacks in order: the deployment each made live again. */
+  pagesRollbacks: Array<{ project: string; id: string }>;
+  /** Pages custom domains by `<project>/<hostname>`; tests move `status` along. */
+  pagesDomains: Map<string, any>;
+  /** Cloudflare for SaaS custom hostnames by id, on any zone. */
+  customHostnames: Map<string, any>;
+  workerRoutes: Map<string, { zone: string; pattern: string; script: string }>;
+  /** D1 databases by uuid; `sql` is every query run, `migrations` what d1_migrations holds. */
+  d1: Map<string, { name: string; sql: string[]; migrations: string[] }>;
+  kv: Map<string, { title: string }>;
+  requests: string[];
+  /** One-off error response for the next request whose path matches the key. */
+  failures: Map<RegExp, { status: number; errors: Array<{ code: number; message: string }> }>;
+};
+
+const UPLOAD_JWT = "upload-session-jwt";
+const COMPLETION_JWT = "assets-completion-jwt";
+const BUCKET_SIZE = 2;
+const PAGES_JWT = "pages-upload-jwt";
+
+/**
+ * Local stand-in for the parts of the Cloudflare API that src/utils/cloudflare.ts uses: Workers
+ * assets upload sessions and buckets, multipart script uploads, workers.dev enablement, the
+ * account subdomain, Pages projects with Direct Upload, rollback and custom domains, custom
+ * hostnames and Worker routes on a zone, D1 databases (queries are recorded, and
+ * d1_migrations is tracked) and KV namespaces. Responses use the real
+ * `{ success, errors, result }` envelope.
+ */
+export async function startCloudflareStub(): Promise<{
+  url: string;
+  state: StubState;
+  /** Forget everything received so far, as if the stand-in had just started. */
+  reset(): void;
+  close(): Promise<void>;
+}> {
+  const state: StubState = emptyState();
+  let pendingHashes = new Set<string>();
+
+  const server = createServer(async (req, res) => {
+    const send = (status: number, result: unknown, errors: Array<{ code: number; message: string }> = []) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify({ success: status < 400, errors, messages: [], result }));
+    };
+    const path = (req.url || "").replace(/\?.*$/, "");
+    state.requests.push(`${req.method} ${path}`);
+
+    for (const [pattern, failure] of state.failures) {
+      if (pattern.test(path)) {
+        state.failures.delete(pattern);
+        return send(failure.status, null, failure.errors);
+      }
+    }
+
+    const auth = req.headers.authorization;
+    const account = `/accounts/${state.accountId}`;
+    const request = await toRequest(req);
+
+    if (req.method === "POST" && path === `${account}/workers/assets/upload`) {
+      if (auth !== `Bearer ${UPLOAD_JWT}`) return send(401, null, [{ code: 10001, message: "bad upload jwt" }]);
+      const form = await request.formData();
+      for (const [hash, file] of form.entries()) {
+        state.assets.set(hash, Buffer.from(await (file as File).text(), "base64").toString("utf8"));
+        pendingHashes.delete(hash);
+      }
+      return send(201, pendingHashes.size ? null : { jwt: COMPLETION_JWT });
+    }
+
+    if (req.method === "POST" && path.startsWith("/pages/assets/")) {
+      if (auth !== `Bearer ${PAGES_JWT}`) return send(401, null, [{ code: 8000000, message: "bad upload jwt" }]);
+      const payload = (await request.json()) as any;
+      if (path === "/pages/assets/check-missing") {
+        return send(200, (payload.hashes as string[]).filter((h) => !state.pagesAssets.has(h)));
+      }
+      if (path === "/pages/assets/upload") {
+        for (const a of payload as Array<{ key: string; value: string; metadata: { contentType: string } }>) {
+          const content = Buffer.from(a.value, "base64").toString("utf8");
+          state.pagesAssets.set(a.key, { content, contentType: a.metadata.contentType });
+        }
+        return send(200, null);
+      }
+      if (path === "/pages/assets/upsert-hashes") return send(200, true);
+    }
+
+    if (auth !== `Bearer ${state.token}`) return send(403, null, [{ code: 10000, message: "Authentication error" }]);
+
+    if (req.method === "GET" && path === `${account}/workers/subdomain`) {
+      return send(200, { subdomain: state.subdomain });
+    }
+
+    const session = path.match(/^\/accounts\/\w+\/workers\/scripts\/([\w-]+)\/assets-upload-session$/);
+    if (req.method === "POST" && session) {
+      const { manifest } = (await request.json()) as { manifest: Record<string, { hash: string; size: number }> };
+      const missing = [...new Set(Object.values(manifest).map((m) => m.hash))].filter((h) => !state.assets.has(h));
+      if (!missing.length) return send(200, { jwt: COMPLETION_JWT, buckets: [] });
+      pendingHashes = new Set(missing);
+      const buckets: string[][] = [];
+      for (let i = 0; i < missing.length; i += BUCKET_SIZE) buckets.push(missing.slice(i, i + BUCKET_SIZE));
+      return send(200, { jwt: UPLOAD_JWT, buckets });
+    }
+
+    const subdomain = path.match(/^\/accounts\/\w+\/workers\/scripts\/([\w-]+)\/subdomain$/);
+    if (req.method === "POST" && subdomain) {
+      if (!state.scripts.has(subdomain[1])) return send(404, null, [{ code: 10007, message: "script not found" }]);
+      state.workersDev.add(subdomain[1]);
+      return send(200, { enabled: true, previews_enabled: false });
+    }
+
+    const settings = path.match(/^\/accounts\/\w+\/workers\/scripts\/([\w-]+)\/settings$/);
+    if (req.method === "GET" && settings) {
+      const found = state.scripts.get(settings[1]);
+      if (!found) return send(404, null, [{ code: 10007, message: "script not found" }]);
+      return send(200, { bindings: found.metadata.bindings || [] });
+    }
+
+    const script = path.match(/^\/accounts\/\w+\/workers\/scripts\/([\w-]+)$/);
+    if (req.method === "DELETE" && script) {
+      if (!state.scripts.delete(script[1])) return send(404, null, [{ code: 10007, message: "script not found" }]);
+      state.workersDev.delete(script[1]);
+      return send(200, null);
+    }
+    if (req.method === "PUT" && script) {
+      const form = await request.formData();
+      const metadata = JSON.parse(await (form.get("metadata") as File).text());
+      if (metadata.assets && metadata.assets.jwt !== COMPLETION_JWT) {
+        return send(400, null, [{ code: 10021, message: "invalid assets completion token" }]);
+      }
+      const modules: Record<string, { type: string; source: string }> = {};
+      for (const [name, part] of form.entries()) {
+        if (name !== "metadata") modules[name] = { type: (part as File).type, source: await (part as File).text() };
+      }
+      if (!modules[metadata.main_module]) {
+        return send(400, null, [{ code: 10021, message: `main_module ${metadata.main_module} missing` }]);
+      }
+      state.scripts.set(script[1], { metadata, modules });
+      return send(200, { id: script[1], etag: "etag-1" });
+    }
+
+    const query = new URL(request.url).searchParams;
+    if (path === `${account}/d1/database`) {
+      if (req.method === "GET") {
+        const name = query.get("name") || "";
+        const found = [...state.d1].filter(([, db]) => db.name.includes(name));
+        return send(200, found.map(([uuid, db]) => ({ uuid, name: db.name })));
+      }
+      const { name } = (await request.json()) as { name: string };
+      if ([...state.d1.values()].some((db) => db.name === name)) {
+        return send(400, null, [{ code: 7502, message: "A database with that name already exists" }]);
+      }
+      const uuid = `d1-${state.d1.size + 1}`;
+      state.d1.set(uuid, { name, sql: [], migrations: [] });
+      return send(200, { uuid, name });
+    }
+    const d1 = path.match(/^\/accounts\/\w+\/d1\/database\/([\w-]+)(\/query)?$/);
+    if (d1) {
+      const db = state.d1.get(d1[1]);
+      if (!db) return send(404, null, [{ code: 7404, message: "database not found" }]);
+      if (req.method === "DELETE") {
+        state.d1.delete(d1[1]);
+        return send(200, null);
+      }
+      const { sql } = (await request.json()) as { sql: string };
+      db.sql.push(sql);
+      if (/^SELECT name FROM d1_migrations/.test(sql)) {
+        return send(200, [{ success: true, results: db.migrations.map((name) => ({ name })) }]);
+      }
+      const applied = sql.match(/INSERT INTO d1_migrations \(name\) VALUES \('(.+)'\);$/);
+      if (applied) db.migrations.push(applied[1].replace(/''/g, "'"));
+      return send(200, [{ success: true, results: [] }]);
+    }
+
+    if (path === `${account}/storage/kv/namespaces`) {
+      if (req.method === "GET") {
+        const perPage = Number(query.get("per_page") || 20);
+        const page = Number(query.get("page") || 1);
+        const all = [...state.kv].map(([id, ns]) => ({ id, title: ns.title }));
+        return send(200, all.slice((page - 1) * perPage, page * perPage));
+      }
+      const { title } = (await request.json()) as { title: string };
+      const id = `kv${state.kv.size + 1}`;
+      state.kv.set(id, { title });
+      return send(200, { id, title });
+    }
+    const kv = path.match(/^\/accounts\/\w+\/storage\/kv\/namespaces\/(\w+)$/);
+    if (req.method === "DELETE" && kv) {
+      if (!state.kv.delete(kv[1])) return send(404, null, [{ code: 10013, message: "namespace not found" }]);
+      return send(200, null);
+    }
+
+    const customHostname = path.match(/^\/zones\/(\w+)\/custom_hostnames(?:\/(\w+))?$/);
+    if (customHostname) {
+      const [, , id] = customHostname;
+      if (req.method === "GET" && !id) {
+        const hostname = new URL(request.url).searchParams.get("hostname");
+        const found = [...state.customHostnames.values()].filter((ch) => !hostname || ch.hostname === hostname);
+        return send(200, found);
+      }
+      if (req.method === "POST" && !id) {
+        const { hostname } = (await request.json()) as { hostname: string };
+        const created = {
+          id: `ch${state.customHostnames.size + 1}`,
+          hostname,
+          status: "pending",
+          ownership_verification: {
+            type: "txt",
+            name: `_cf-custom-hostname.${hostname}`,
+            value: "ownership-token"
+          },
+          ssl: {
+            status: "pending_validation",
+            method: "txt",
+            validation_records: [{ txt_name: `_acme-challenge.${hostname}`, txt_value: "ssl-token" }]
+          }
+        };
+        state.customHostnames.set(created.id, created);
+        return send(200, created);
+      }
+      const found = id ? state.customHostnames.get(id) : undefined;
+      if (!found) return send(404, null, [{ code: 1436, message: "custom hostname not found" }]);
+      if (req.method === "GET") return send(200, found);
+      if (req.method === "DELETE") {
+        state.customHostnames.delete(id!);
+        return send(200, { id });
+      }
+    }
+
+    const route = path.match(/^\/zones\/(\w+)\/workers\/routes(?:\/(\w+))?$/);
+    if (route) {
+      const [, zone, id] = route;
+      if (req.method === "GET" && !id) {
+        const routes = [...state.workerRoutes].filter(([, r]) => r.zone === zone);
+        return send(200, routes.map(([routeId, r]) => ({ id: routeId, pattern: r.pattern, script: r.script })));
+      }
+      if ((req.method === "POST" && !id) || (req.method === "PUT" && id)) {
+        const { pattern, script } = (await request.json()) as { pattern: string; script: string };
+        const routeId = id || `route${state.workerRoutes.size + 1}`;
+        state.workerRoutes.set(routeId, { zone, pattern, script });
+        return send(200, { id: routeId, pattern, script });
+      }
+      if (req.method === "DELETE" && id) {
+        if (!state.workerRoutes.delete(id)) return send(404, null, [{ code: 10020, message: "route not found" }]);
+        return send(200, { id });
+      }
+    }
+
+    const pagesDomain = path.match(/^\/accounts\/\w+\/pages\/projects\/([\w-]+)\/domains(?:\/([\w.-]+))?$/);
+    if (pagesDomain) {
+      const [, name, hostname] = pagesDomain;
+      if (!state.pagesProjects.has(name)) return send(404, null, [{ code: 8000007, message: "Project not found" }]);
+      if (req.method === "POST" && !hostname) {
+        const { name: domain } = (await request.json()) as { name: string };
+        const created = {
+          id: `dom${state.pagesDomains.size + 1}`,
+          name: domain,
+          status: "initializing",
+          verification_data: { status: "pending" },
+          validation_data: {
+            status: "initializing",
+            method: "txt",
+            txt_name: `_acme-challenge.${domain}`,
+            txt_value: "pages-ssl-token"
+          }
+        };
+        state.pagesDomains.set(`${name}/${domain}`, created);
+        return send(200, created);
+      }
+      const found = state.pagesDomains.get(`${name}/${hostname}`);
+      if (req.method === "GET" && found) return send(200, found);
+      return send(404, null, [{ code: 8000015, message: "Domain not found" }]);
+    }
+
+    const pagesRollback = path.match(
+      /^\/accounts\/\w+\/pages\/projects\/([\w-]+)\/deployments\/(\w+)\/rollback$/
+    );
+    if (req.method === "POST" && pagesRollback) {
+      const [, name, id] = pagesRollback;
+      const deployment = state.pagesDeployments.find((d) => d.project === name && d.id === id);
+      if (!deployment) return send(404, null, [{ code: 8000009, message: "Deployment not found" }]);
+      const view = pagesDeploymentView(deployment, state);
+      if (view.environment !== "production") {
+        return send(400, null, [{ code: 8000035, message: "Can only roll back to production deployments" }]);
+      }
+      state.pagesRollbacks.push({ project: name, id });
+      return send(200, { id, ...view });
+    }
+
+    const pagesDeployment = path.match(
+      /^\/accounts\/\w+\/pages\/projects\/([\w-]+)\/deployments\/(\w+)(\/history\/logs)?$/
+    );
+    if (req.method === "GET" && pagesDeployment) {
+      const [, name, id, logs] = pagesDeployment;
+      const deployment = state.pagesDeployments.find((d) => d.project === name && d.id === id);
+      if (!deployment) return send(404, null, [{ code: 8000009, message: "Deployment not found" }]);
+      if (logs) return send(200, { total: deployment.logs.length, data: deployment.logs });
+      const { url, environment, latest_stage } = pagesDeploymentView(deployment, state);
+      return send(200, { id, url, environment, latest_stage, stages: [latest_stage] });
+    }
+
+    const pages = path.match(/^\/accounts\/\w+\/pages\/projects(?:\/([\w-]+))?(\/upload-token|\/deployments)?$/);
+    if (pages) {
+      const [, name, sub] = pages;
+      const project = name ? state.pagesProjects.get(name) : undefined;
+      if (req.method === "POST" && !name) {
+        const created = (await request.json()) as { name: string; production_branch: string };
+        state.pagesProjects.set(created.name, created);
+        return send(200, created);
+      }
+      if (!project) return send(404, null, [{ code: 8000007, message: "Project not found" }]);
+      if (req.method === "GET" && !sub) return send(200, project);
+      if (req.method === "PATCH" && !sub) {
+        // Like Cloudflare: deployment_configs merge per environment, and a null variable is deleted.
+        const { deployment_configs: configs, ...rest } = (await request.json()) as Record<string, any>;
+        Object.assign(project, rest);
+        for (const [name, config] of Object.entries<Record<string, any>>(configs || {})) {
+          const current = ((project.deployment_configs ??= {})[name] ??= {});
+          const { env_vars: vars, ...other } = config;
+          Object.assign(current, other);
+          for (const [key, value] of Object.entries(vars || {})) {
+            if (value === null) delete (current.env_vars ??= {})[key];
+            else (current.env_vars ??= {})[key] = value;
+          }
+        }
+        return send(200, project);
+      }
+      if (req.method === "DELETE" && !sub) {
+        state.pagesProjects.delete(name!);
+        state.pagesDeployments = state.pagesDeployments.filter((d) => d.project !== name);
+        for (const key of state.pagesDomains.keys()) {
+          if (key.startsWith(`${name}/`)) state.pagesDomains.delete(key);
+        }
+        return send(200, null);
+      }
+      if (req.method === "GET" && sub === "/upload-token") return send(200, { jwt: PAGES_JWT });
+      if (req.method === "POST" && sub === "/deployments") {
+        const form = await request.formData();
+        const manifest = JSON.parse(String(form.get("manifest"))) as Record<string, string>;
+        const unknown = Object.values(manifest).filter((h) => !state.pagesAssets.has(h));
+        if (unknown.length) return send(400, null, [{ code: 8000096, message: `unknown hashes ${unknown}` }]);
+        const branch = (form.get("branch") as string | null) ?? undefined;
+        const config: Record<string, string> = {};
+        for (const f of ["_headers", "_redirects", "_routes.json"]) {
+          if (form.get(f)) config[f] = await (form.get(f) as File).text();
+        }
+        const worker = form.get("_worker.js") ? await (form.get("_worker.js") as File).text() : undefined;
+        const id = `dep${state.pagesDeployments.length + 1}abcdef`;
+        const now = new Date().toISOString();
+        const latest_stage = { name: "deploy", status: "success", started_on: now, ended_on: now };
+        const deployment = { id, project: name!, manifest, branch, worker, config, latest_stage, logs: [] };
+        state.pagesDeployments.push(deployment);
+        const { url, environment } = pagesDeploymentView(deployment, state);
+        return send(200, { id, url, environment, latest_stage });
+      }
+    }
+
+    send(404, null, [{ code: 7003, message: `No route for ${req.method} ${path}` }]);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    state,
+    reset: () => {
+      Object.assign(state, emptyState());
+      pendingHashes = new Set();
+    },
+    close: () => new Promise((resolve) => server.close(() => resolve()))
+  };
+}
+
+function emptyState(): StubState {
+  return {
+    token: "cf-test-token",
+    accountId: "acc123",
+    subdomain: "launchwing-test",
+    assets: new Map(),
+    scripts: new Map(),
+    workersDev: new Set(),
+    pagesProjects: new Map(),
+    pagesAssets: new Map(),
+    pagesDeployments: [],
+    pagesRollbacks: [],
+    pagesDomains: new Map(),
+    customHostnames: new Map(),
+    workerRoutes: new Map(),
+    d1: new Map(),
+    kv: new Map(),
+    requests: [],
+    failures: new Map()
+  };
+}
+
+function pagesDeploymentView(deployment: StubState["pagesDeployments"][number], state: StubState) {
+  const project = state.pagesProjects.get(deployment.project);
+  const preview = deployment.branch && deployment.branch !== project?.production_branch;
+  return {
+    url: `https://${deployment.id.slice(0, 8)}.${deployment.project}.pages.dev`,
+    environment: preview ? "preview" : "production",
+    latest_stage: deployment.latest_stage
+  };
+}
+
+/** Node request → fetch Request, so multipart bodies can be read with formData(). */
+async function toRequest(req: IncomingMessage): Promise<Request> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const body = chunks.length ? Buffer.concat(chunks) : undefined;
+  const headers = new Headers();
+  for (const [k, v] of Object.entries(req.headers)) if (typeof v === "string") headers.set(k, v);
+  return new Request(`http://stub${req.url}`, { method: req.method, headers, body });
+}
@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, beforeEach } from "vitest";
+import type { Env } from "../../src/types";
+import { sandboxDeployHandler } from "../../src/api/sandbox-deploy";
+import { DeploymentRegistry } from "../../src/utils/deployments";
+import { startCloudflareStub, type StubState } from "./cloudflareApiStub";
+import { durableObjectNamespace } from "./durableObjects";
+
+export type CloudflareTestContext = { url: string; state: StubState; env: Env };
+
+/**
+ * Start the Cloudflare stand-in for the calling test file. Before each test its state is reset
+ * and `env` is a fresh Env pointing at it, plus `extra`, with an in-memory DEPLOYMENTS registry
+ * when `deployments` is set.
+ */
+export function useCloudflareStub(extra: Partial<Env> = {}, { deployments = false } = {}): CloudflareTestContext {
+  const cf = {} as CloudflareTestContext;
+  let stub: Awaited<ReturnType<typeof startCloudflareStub>>;
+
+  beforeAll(async () => {
+    stub = await startCloudflareStub();
+    cf.url = stub.url;
+    cf.state = stub.state;
+  });
+  afterAll(() => stub.close());
+  beforeEach(() => {
+    stub.reset();
+    cf.env = {
+      CLOUDFLARE_API_URL: stub.url,
+      CLOUDFLARE_API_TOKEN: stub.state.token,
+      CLOUDFLARE_ACCOUNT_ID: stub.state.accountId,
+      ...extra
+    };
+    if (deployments) cf.env.DEPLOYMENTS = durableObjectNamespace(DeploymentRegistry, cf.env);
+  });
+  return cf;
+}
+
+/** POST /sandbox-deploy, confirmed and with a one-page bundle unless `body` says otherwise. */
+export async function sandboxDeploy(env: Env, body: object): Promise<{ status: number; body: any }> {
+  const req = new Request("http://orchestrator/sandbox-deploy", {
+    method: "POST",
+    body: JSON.stringify({ confirm: true, files: { "index.html": "<h1>hi</h1>" }, ...body })
+  });
+  const res = await sandboxDeployHandler(req, env);
+  return { status: res.status, body: await res.json() };
+}
@@ -0,0 +1,10 @@
+/**
+ * Stand-in for the `cloudflare:workers` runtime module (aliased in vitest.config.ts): just
+ * enough of DurableObject for classes that extend it to be constructed in Node.
+ */
+export class DurableObject<Env = unknown> {
+  constructor(
+    protected ctx: DurableObjectState,
+    protected env: Env
+  ) {}
+}
@@ -0,0 +1,47 @@
+/** In-memory DurableObjectStorage: the key-value calls the repo's Durable Objects make. */
+export function memoryStorage() {
+  const data = new Map<string, unknown>();
+  // Values are copied in and out, as the real storage serializes them.
+  const copy = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+  return {
+    data,
+    // A key array gets a Map of the keys found; an object puts every entry.
+    async get<T>(key: string | string[]): Promise<any> {
+      if (typeof key === "string") return copy(data.get(key) as T | undefined);
+      return new Map(key.filter((k) => data.has(k)).map((k) => [k, copy(data.get(k) as T)]));
+    },
+    async put(key: string | Record<string, unknown>, value?: unknown) {
+      if (typeof key === "string") data.set(key, copy(value));
+      else for (const [k, v] of Object.entries(key)) data.set(k, copy(v));
+    },
+    // A key array deletes every key and answers how many existed.
+    async delete(key: string | string[]): Promise<any> {
+      if (typeof key === "string") return data.delete(key);
+      return key.filter((k) => data.delete(k)).length;
+    },
+    async list<T>(opts: { prefix?: string; reverse?: boolean; limit?: number } = {}): Promise<Map<string, T>> {
+      const keys = [...data.keys()].filter((k) => k.startsWith(opts.prefix ?? "")).sort();
+      if (opts.reverse) keys.reverse();
+      return new Map(keys.slice(0, opts.limit).map((k) => [k, copy(data.get(k) as T)]));
+    }
+  };
+}
+
+/**
+ * A DurableObjectNamespace whose stubs are the objects themselves, one per name, so RPC calls
+ * are plain method calls against in-memory storage.
+ */
+export function durableObjectNamespace<T>(
+  Class: new (ctx: any, env: any) => T,
+  env: unknown
+): DurableObjectNamespace<any> & { instances: Map<string, T> } {
+  const instances = new Map<string, T>();
+  return {
+    instances,
+    idFromName: (name: string) => ({ name, toString: () => name }),
+    get(id: { name: string }) {
+      if (!instances.has(id.name)) instances.set(id.name, new Class({ storage: memoryStorage() }, env));
+      return instances.get(id.name);
+    }
+  } as any;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { appDeploymentsHandler, appRollbackHandler } from "../../src/api/apps";
+import { deploy } from "../../src/generation/stage6-deploy";
+import { sandboxDeploy, useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const cf = useCloudflareStub({}, { deployments: true });
+
+async function history(name: string) {
+  const req = new Request(`http://orchestrator/apps/${name}/deployments`);
+  const res = await appDeploymentsHandler(req, cf.env, name);
+  return { status: res.status, body: (await res.json()) as any };
+}
+
+async function rollback(name: string, body: object = {}) {
+  const req = new Request(`http://orchestrator/apps/${name}/rollback`, {
+    method: "POST",
+    body: JSON.stringify(body)
+  });
+  const res = await appRollbackHandler(req, cf.env, name);
+  return { status: res.status, body: (await res.json()) as any };
+}
+
+describe("GET /apps/:name/deployments", () => {
+  it("lists every deployment of a Pages project, newest first, with what was deployed", async () => {
+    const { body: first } = await sandboxDeploy(cf.env, {
+      id: "notes",
+      files: { "index.html": "v1" },
+      generationId: "gen1",
+      smoke: { passed: true }
+    });
+    const { body: second } = await sandboxDeploy(cf.env, {
+      id: "notes",
+      files: { "index.html": "v2", "app.js": "1" },
+      generationId: "gen2"
+    });
+
+    const { status, body } = await history("launchwing-notes");
+    expect(status).toBe(200);
+    expect(body.live).toBe(second.deploymentId);
+    expect(body.deployments.map((d: any) => [d.id, d.generationId, d.live])).toEqual([
+      [second.deploymentId, "gen2", true],
+      [first.deploymentId, "gen1", false]
+    ]);
+    const [latest, earlier] = body.deployments;
+    expect(earlier).toMatchObject({
+      kind: "pages",
+      stage: "deployed",
+      url: "https://dep1abcd.launchwing-notes.pages.dev",
+      pagesDeploymentId: "dep1abcdef",
+      smoke: { passed: true }
+    });
+    expect(Object.keys(latest.files)).toEqual(["index.html", "app.js"]);
+    expect(latest.files["index.html"]).toMatch(/^[0-9a-f]{32}$/);
+    expect(latest.files["index.html"]).not.toBe(earlier.files["index.html"]);
+    expect(latest.logs).toBeUndefined();
+  });
+
+  it("answers 404 for an app that was never deployed", async () => {
+    expect((await history("nothing-here")).status).toBe(404);
+  });
+});
+
+describe("POST /apps/:name/rollback", () => {
+  it("promotes the previous Pages deployment with Cloudflare's rollback", async () => {
+    const { body: first } = await sandboxDeploy(cf.env, {
+      id: "notes",
+      files: { "index.html": "v1" },
+      generationId: "gen1"
+    });
+    await sandboxDeploy(cf.env, { id: "notes", files: { "index.html": "v2" }, generationId: "gen2" });
+
+    const { status, body } = await rollback("launchwing-notes");
+    expect(status).toBe(200);
+    expect(cf.state.pagesRollbacks).toEqual([{ project: "launchwing-notes", id: "dep1abcdef" }]);
+    expect(body.deployment).toMatchObject({
+      kind: "pages",
+      stage: "deployed",
+      live: true,
+      rollbackOf: first.deploymentId,
+      generationId: "gen1",
+      pagesDeploymentId: "dep1abcdef",
+      url: "https://dep1abcd.launchwing-notes.pages.dev"
+    });
+
+    const after = (await history("launchwing-notes")).body;
+    expect(after.live).toBe(body.deployment.id);
+    expect(after.deployments).toHaveLength(3);
+  });
+
+  it("uploads a Worker's stored bundle again under the same script", async () => {
+    const ir = { name: "Todo" } as any;
+    const v1 = await deploy({ "_worker.js": "export default { v: 1 }", "index.html": "<p>1</p>" }, cf.env, ir, {
+      ideaId: "idea-1",
+      generationId: "gen1",
+      smoke: { passed: true, logs: ["ok"], probes: [] }
+    });
+    const v2 = await deploy({ "_worker.js": "export default { v: 2 }", "index.html": "<p>2</p>" }, cf.env, ir, {
+      ideaId: "idea-1",
+      generationId: "gen2"
+    });
+    expect(v2.scriptName).toBe(v1.scriptName);
+    expect(v1.scriptName).toBe("todo-idea-1");
+
+    const { status, body } = await rollback("todo-idea-1", { deploymentId: v1.deploymentId });
+    expect(status).toBe(200);
+    expect(body.deployment).toMatchObject({
+      kind: "worker",
+      stage: "deployed",
+      rollbackOf: v1.deploymentId,
+      generationId: "gen1",
+      smoke: { passed: true },
+      url: v1.url
+    });
+    const script = cf.state.scripts.get("todo-idea-1")!;
+    expect(script.metadata.main_module).toBe("_worker.js");
+    expect(script.modules["_worker.js"].source).toBe("export default { v: 1 }");
+    expect([...cf.state.assets.values()]).toContain("<p>1</p>");
+  });
+
+  it("refuses deployments that can't be promoted", async () => {
+    const { body: only } = await sandboxDeploy(cf.env, { id: "solo", files: { "index.html": "v1" } });
+    expect((await rollback("launchwing-solo")).status).toBe(409);
+    expect((await rollback("launchwing-solo", { deploymentId: only.deploymentId })).body.error).toContain(
+      "already live"
+    );
+    expect((await rollback("launchwing-solo", { deploymentId: "other" })).status).toBe(404);
+    expect((await rollback("launchwing-none")).status).toBe(404);
+  });
+
+  it("records a rollback Cloudflare rejects as failed", async () => {
+    const { body: preview } = await sandboxDeploy(cf.env, {
+      id: "notes",
+      files: { "index.html": "v1" },
+      branch: "feature"
+    });
+    await sandboxDeploy(cf.env, { id: "notes", files: { "index.html": "v2" } });
+
+    const { status, body } = await rollback("launchwing-notes", { deploymentId: preview.deploymentId });
+    expect(status).toBe(502);
+    expect(body.error).toContain("Can only roll back to production deployments");
+    expect(body.deployment).toMatchObject({ stage: "failed", rollbackOf: preview.deploymentId });
+    expect((await history("launchwing-notes")).body.live).not.toBe(body.deployment.id);
+  });
+});
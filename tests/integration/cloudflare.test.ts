@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { deployPagesBundle, uploadModuleWorker } from "../../src/utils/cloudflare";
+import { deploy } from "../../src/generation/stage6-deploy";
+import { useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const cf = useCloudflareStub();
+
+describe("uploadModuleWorker", () => {
+  it("uploads modules, bindings and assets, and returns the workers.dev URL", async () => {
+    const result = await uploadModuleWorker(cf.env, "todo-abc123", {
+      mainModule: "_worker.js",
+      modules: {
+        "_worker.js": `import { hello } from "./lib.js";\nexport default { fetch: () => new Response(hello) };`,
+        "lib.js": `export const hello = "hi";`
+      },
+      assets: { "index.html": "<h1>Todo</h1>", "app.js": "console.log(1)", "styles/site.css": "body{}" },
+      bindings: [{ type: "plain_text", name: "MODE", text: "sandbox" }]
+    });
+
+    expect(result).toEqual({
+      scriptName: "todo-abc123",
+      url: "https://todo-abc123.launchwing-test.workers.dev",
+      modules: ["_worker.js", "lib.js"],
+      assets: 3
+    });
+
+    const script = cf.state.scripts.get("todo-abc123")!;
+    expect(script.metadata.main_module).toBe("_worker.js");
+    expect(script.metadata.compatibility_date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(script.metadata.bindings).toEqual([
+      { type: "plain_text", name: "MODE", text: "sandbox" },
+      { type: "assets", name: "ASSETS" }
+    ]);
+    expect(script.metadata.assets.config).toEqual({ not_found_handling: "single-page-application" });
+    expect(script.modules["lib.js"]).toEqual({
+      type: "application/javascript+module",
+      source: `export const hello = "hi";`
+    });
+
+    // 3 files in buckets of 2: two bucket uploads, contents intact after base64.
+    expect(cf.state.requests.filter((r) => r.endsWith("/workers/assets/upload"))).toHaveLength(2);
+    expect([...cf.state.assets.values()].sort()).toEqual(["<h1>Todo</h1>", "body{}", "console.log(1)"]);
+    expect(cf.state.workersDev.has("todo-abc123")).toBe(true);
+  });
+
+  it("doesn't re-send assets Cloudflare already has", async () => {
+    const upload = { mainModule: "w.js", modules: { "w.js": "export default {}" }, assets: { "a.txt": "same" } };
+    await uploadModuleWorker(cf.env, "app-one", upload);
+    cf.state.requests.length = 0;
+
+    await uploadModuleWorker(cf.env, "app-two", upload);
+    expect(cf.state.requests.some((r) => r.endsWith("/workers/assets/upload"))).toBe(false);
+    expect(cf.state.scripts.get("app-two")!.metadata.assets.jwt).toBeTruthy();
+  });
+
+  it("uploads a script without assets and without an ASSETS binding", async () => {
+    await uploadModuleWorker(cf.env, "api-only", { mainModule: "w.js", modules: { "w.js": "export default {}" } });
+    const { metadata } = cf.state.scripts.get("api-only")!;
+    expect(metadata.bindings).toEqual([]);
+    expect(metadata.assets).toBeUndefined();
+    expect(cf.state.requests.some((r) => r.includes("assets"))).toBe(false);
+  });
+
+  it("reports Cloudflare's error messages", async () => {
+    cf.state.failures.set(/\/workers\/scripts\/broken$/, {
+      status: 400,
+      errors: [{ code: 10021, message: "Uncaught SyntaxError: Unexpected token" }]
+    });
+    await expect(
+      uploadModuleWorker(cf.env, "broken", { mainModule: "w.js", modules: { "w.js": "export default {" } })
+    ).rejects.toThrow("Cloudflare upload Worker broken failed: 400 10021: Uncaught SyntaxError: Unexpected token");
+    expect(cf.state.workersDev.has("broken")).toBe(false);
+  });
+
+  it("rejects a main module that isn't uploaded", async () => {
+    await expect(
+      uploadModuleWorker(cf.env, "x", { mainModule: "missing.js", modules: { "w.js": "" } })
+    ).rejects.toThrow("Main module missing.js is not in the upload");
+    expect(cf.state.requests).toEqual([]);
+  });
+});
+
+describe("stage6 deploy", () => {
+  it("deploys Pages Functions behind a router entry, static files as assets", async () => {
+    const result = await deploy(
+      {
+        "index.html": "<!doctype html><title>Notes</title>",
+        "functions/api/notes.js": `export const onRequestGet = () => Response.json([]);`,
+        "functions/api/notes.ts": `export const onRequestGet = () => Response.json([]);`
+      },
+      cf.env,
+      { version: 2, name: "Notes App", app_type: "spa_api", pages: ["/"], api_routes: [] } as any
+    );
+
+    expect(result.scriptName).toMatch(/^notes-app-[a-z0-9]{6}$/);
+    expect(result.url).toBe(`https://${result.scriptName}.launchwing-test.workers.dev`);
+    expect(result.assets).toBe(1);
+
+    const { metadata, modules } = cf.state.scripts.get(result.scriptName)!;
+    expect(Object.keys(modules).sort()).toEqual(["__launchwing_entry.js", "functions/api/notes.js"]);
+    expect(metadata.main_module).toBe("__launchwing_entry.js");
+    expect(modules["__launchwing_entry.js"].source).toContain(`import * as m0 from "./functions/api/notes.js"`);
+    expect(modules["__launchwing_entry.js"].source).toContain("export default app;");
+  });
+
+  it("uses the generated _worker.js as the entry", async () => {
+    const result = await deploy({ "_worker.js": "export default {}", "index.html": "<p>hi</p>" }, cf.env);
+    const { metadata, modules } = cf.state.scripts.get(result.scriptName)!;
+    expect(metadata.main_module).toBe("_worker.js");
+    expect(Object.keys(modules)).toEqual(["_worker.js"]);
+    expect(result.scriptName).toMatch(/^app-/);
+  });
+
+  it("doesn't serve config, repo metadata or TypeScript sources", async () => {
+    const result = await deploy(
+      {
+        "index.html": "<p>hi</p>",
+        "wrangler.toml": 'name = "notes"',
+        "README.md": "# Notes",
+        "_worker.ts": "export default {}",
+        ".launchwing.json": "{}",
+        ".github/workflows/deploy-pages.yml": "on: push"
+      },
+      cf.env
+    );
+    expect(result.assets).toBe(1);
+    expect([...cf.state.assets.values()]).toEqual(["<p>hi</p>"]);
+  });
+});
+
+describe("deployPagesBundle", () => {
+  beforeEach(() => {
+    cf.state.pagesProjects.set("notes", { name: "notes", production_branch: "main" });
+  });
+
+  it("uploads assets, the worker and config files, and returns the deployment URL", async () => {
+    const result = await deployPagesBundle(cf.env, "notes", {
+      "index.html": "<h1>Notes</h1>",
+      "assets/app.js": "console.log(1)",
+      "_worker.js": "export default {}",
+      "_redirects": "/old /new 301",
+      "functions/api/notes.ts": "export const onRequestGet = () => new Response()",
+      ".github/workflows/deploy.yml": "on: push"
+    });
+
+    expect(result).toEqual({
+      id: "dep1abcdef",
+      url: "https://dep1abcd.notes.pages.dev",
+      environment: "production",
+      assets: 2,
+      uploaded: 2,
+      worker: true,
+      skipped: ["functions/api/notes.ts", ".github/workflows/deploy.yml"]
+    });
+
+    const deployment = cf.state.pagesDeployments[0];
+    expect(Object.keys(deployment.manifest).sort()).toEqual(["/assets/app.js", "/index.html"]);
+    expect(cf.state.pagesAssets.get(deployment.manifest["/index.html"])).toEqual({
+      content: "<h1>Notes</h1>",
+      contentType: "text/html; charset=utf-8"
+    });
+    expect(deployment.worker).toBe("export default {}");
+    expect(deployment.config).toEqual({ _redirects: "/old /new 301" });
+  });
+
+  it("only uploads assets Cloudflare is missing", async () => {
+    await deployPagesBundle(cf.env, "notes", { "index.html": "v1", "app.js": "same" });
+    cf.state.requests.length = 0;
+
+    const result = await deployPagesBundle(cf.env, "notes", { "index.html": "v2", "app.js": "same" });
+    expect(result).toMatchObject({ assets: 2, uploaded: 1 });
+    expect(cf.state.requests.filter((r) => r === "POST /pages/assets/upload")).toHaveLength(1);
+    expect(cf.state.pagesAssets.size).toBe(3);
+  });
+
+  it("deploys a branch as a preview", async () => {
+    const result = await deployPagesBundle(cf.env, "notes", { "index.html": "hi" }, { branch: "sandbox" });
+    expect(result.environment).toBe("preview");
+    expect(cf.state.pagesDeployments[0].branch).toBe("sandbox");
+  });
+
+  it("rejects a bundle with nothing deployable", async () => {
+    await expect(deployPagesBundle(cf.env, "notes", { "src/main.tsx": "" })).rejects.toThrow("Nothing to deploy");
+    expect(cf.state.requests).toEqual([]);
+  });
+
+  it("reports Cloudflare's error messages", async () => {
+    cf.state.failures.set(/\/pages\/projects\/notes\/deployments$/, {
+      status: 400,
+      errors: [{ code: 8000011, message: "Project is over the file limit" }]
+    });
+    await expect(deployPagesBundle(cf.env, "notes", { "index.html": "hi" })).rejects.toThrow(
+      "Cloudflare create Pages deployment for notes failed: 400 8000011: Project is over the file limit"
+    );
+  });
+});
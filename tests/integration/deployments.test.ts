@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { deploymentHandler } from "../../src/api/deployments";
+import { sandboxDeployHandler } from "../../src/api/sandbox-deploy";
+import { deploy } from "../../src/generation/stage6-deploy";
+import { sandboxDeploy, useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const cf = useCloudflareStub({}, { deployments: true });
+
+async function status(id: string, query = "") {
+  const res = await deploymentHandler(new Request(`http://orchestrator/deployments/${id}${query}`), cf.env, id);
+  return { status: res.status, body: query ? await res.text() : ((await res.json()) as any) };
+}
+
+describe("GET /deployments/:id", () => {
+  it("reports a Pages deployment's stages, logs and URL", async () => {
+    const { body: deployed } = await sandboxDeploy(cf.env, { id: "notes" });
+    expect(deployed.stage).toBe("building");
+
+    const { status: code, body } = await status(deployed.deploymentId);
+    expect(code).toBe(200);
+    const { deployment } = body;
+    expect(deployment).toMatchObject({
+      id: deployed.deploymentId,
+      kind: "pages",
+      target: "launchwing-notes",
+      stage: "deployed",
+      url: "https://dep1abcd.launchwing-notes.pages.dev",
+      pagesDeploymentId: "dep1abcdef"
+    });
+    expect(deployment.stages.map((s: any) => s.name)).toEqual(["queued", "uploading", "building", "deployed"]);
+    for (const s of deployment.stages) expect(Date.parse(s.at)).not.toBeNaN();
+    expect(deployment.logs.map((l: any) => [l.stage, l.message])).toEqual([
+      ["queued", "Created Pages project launchwing-notes"],
+      ["uploading", "Uploading 1 files"],
+      ["uploading", "Uploaded 1 of 1 assets"],
+      ["building", "Cloudflare Pages deployment dep1abcdef created"],
+      ["deployed", "Deployed to https://dep1abcd.launchwing-notes.pages.dev"]
+    ]);
+  });
+
+  it("follows Cloudflare's build stage and copies its build log once", async () => {
+    const { body: deployed } = await sandboxDeploy(cf.env, { id: "slow", files: { "index.html": "hi" } });
+    const pages = cf.state.pagesDeployments[0];
+    pages.latest_stage = { name: "build", status: "active", started_on: "2026-01-01T00:00:00Z", ended_on: null };
+    pages.logs = [{ ts: "2026-01-01T00:00:01Z", line: "Building…" }];
+
+    let { deployment } = (await status(deployed.deploymentId)).body;
+    expect(deployment.stage).toBe("building");
+    ({ deployment } = (await status(deployed.deploymentId)).body);
+    expect(deployment.logs.filter((l: any) => l.message === "Building…")).toHaveLength(1);
+
+    pages.latest_stage = { name: "deploy", status: "failure", started_on: null, ended_on: "2026-01-01T00:00:05Z" };
+    ({ deployment } = (await status(deployed.deploymentId)).body);
+    expect(deployment).toMatchObject({ stage: "failed", error: "Cloudflare Pages deploy stage failure" });
+    expect(deployment.stages.at(-1)).toEqual({ name: "failed", at: "2026-01-01T00:00:05Z" });
+  });
+
+  it("records a Worker upload from stage6", async () => {
+    const result = await deploy({ "_worker.js": "export default {}", "index.html": "<p>hi</p>" }, cf.env);
+    const { deployment } = (await status(result.deploymentId)).body;
+    expect(deployment).toMatchObject({ kind: "worker", target: result.scriptName, stage: "deployed", url: result.url });
+    expect(deployment.stages.map((s: any) => s.name)).toEqual(["queued", "uploading", "deployed"]);
+  });
+
+  it("records whether the deployment created its target", async () => {
+    const { body: first } = await sandboxDeploy(cf.env, { id: "notes" });
+    const { body: again } = await sandboxDeploy(cf.env, { id: "notes" });
+    expect((await status(first.deploymentId)).body.deployment.created).toBe(true);
+    expect((await status(again.deploymentId)).body.deployment.created).toBeUndefined();
+
+    const worker = await deploy({ "_worker.js": "export default {}" }, cf.env, undefined, { ideaId: "x1" });
+    const reused = await deploy({ "_worker.js": "export default {}" }, cf.env, undefined, { ideaId: "x1" });
+    expect((await status(worker.deploymentId)).body.deployment.created).toBe(true);
+    expect((await status(reused.deploymentId)).body.deployment.created).toBeUndefined();
+  });
+
+  it("records a failed upload with Cloudflare's error", async () => {
+    cf.state.failures.set(/\/workers\/scripts\/[\w-]+$/, {
+      status: 400,
+      errors: [{ code: 10021, message: "bad script" }]
+    });
+    await expect(deploy({ "_worker.js": "export default {" }, cf.env)).rejects.toThrow("bad script");
+    const [record] = [...(cf.env.DEPLOYMENTS as any).instances.get("registry").ctx.storage.data.values()];
+    expect(record).toMatchObject({ kind: "worker", stage: "failed" });
+    expect(record.error).toContain("10021: bad script");
+  });
+
+  it("answers 404 for unknown ids", async () => {
+    expect((await status("nope")).status).toBe(404);
+  });
+});
+
+describe("GET /deployments/:id?stream=true", () => {
+  it("streams every stage and log line, then the final record", async () => {
+    const { body: deployed } = await sandboxDeploy(cf.env, { id: "stream", files: { "index.html": "hi" } });
+    const { body } = await status(deployed.deploymentId, "?stream=true");
+    const events = (body as string).trim().split("\n").map((l) => JSON.parse(l));
+
+    expect(events.filter((e) => e.event === "stage").map((e) => e.stage)).toEqual([
+      "queued",
+      "uploading",
+      "building",
+      "deployed"
+    ]);
+    expect(events.filter((e) => e.event === "log")).toHaveLength(5);
+    expect(events.at(-1)).toMatchObject({ event: "done", deployment: { stage: "deployed" } });
+  });
+});
+
+describe("POST /sandbox-deploy with async", () => {
+  it("answers 202 with the id to follow", async () => {
+    const req = new Request("http://orchestrator/sandbox-deploy", {
+      method: "POST",
+      body: JSON.stringify({ id: "bg", files: { "index.html": "hi" }, confirm: true, async: true })
+    });
+    const pending: Promise<unknown>[] = [];
+    const res = await sandboxDeployHandler(req, cf.env, { waitUntil: (p) => pending.push(p) } as ExecutionContext);
+    const body = (await res.json()) as any;
+    expect(res.status).toBe(202);
+    expect(body.stage).toBe("queued");
+
+    await Promise.all(pending);
+    expect((await status(body.deploymentId)).body.deployment.stage).toBe("deployed");
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { appDomainHandler, appDomainStatusHandler } from "../../src/api/domains";
+import { deploy } from "../../src/generation/stage6-deploy";
+import { teardownExpiredSandboxes } from "../../src/utils/teardown";
+import { sandboxDeploy, useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const cf = useCloudflareStub(
+  { CUSTOM_HOSTNAME_ZONE_ID: "zone1", CUSTOM_HOSTNAME_TARGET: "apps.launchwing.dev" },
+  { deployments: true }
+);
+
+async function attach(name: string, hostname: unknown) {
+  const req = new Request(`http://orchestrator/apps/${name}/domains`, {
+    method: "POST",
+    body: JSON.stringify({ hostname })
+  });
+  const res = await appDomainHandler(req, cf.env, name);
+  return { status: res.status, body: (await res.json()) as any };
+}
+
+async function status(name: string, hostname: string, query = "") {
+  const req = new Request(`http://orchestrator/apps/${name}/domains/${hostname}${query}`);
+  const res = await appDomainStatusHandler(req, cf.env, name, hostname);
+  return { status: res.status, body: query ? await res.text() : ((await res.json()) as any) };
+}
+
+describe("POST /apps/:name/domains", () => {
+  it("adds the hostname to the Pages project and lists the DNS records to create", async () => {
+    await sandboxDeploy(cf.env, { id: "notes" });
+    const { status: code, body } = await attach("launchwing-notes", "Demo.Example.com");
+    expect(code).toBe(200);
+    expect(body.domain).toMatchObject({ hostname: "demo.example.com", kind: "pages", status: "pending" });
+    expect(body.domain.dnsRecords).toEqual([
+      {
+        type: "CNAME",
+        name: "demo.example.com",
+        value: "launchwing-notes.pages.dev",
+        purpose: "routes the hostname to the app"
+      },
+      { type: "TXT", name: "_acme-challenge.demo.example.com", value: "pages-ssl-token", purpose: "certificate" }
+    ]);
+
+    // Attaching again reuses it; new deployments list it among their URLs.
+    expect((await attach("launchwing-notes", "demo.example.com")).status).toBe(200);
+    expect(cf.state.pagesDomains.size).toBe(1);
+    expect((await sandboxDeploy(cf.env, { id: "notes" })).body.urls.custom).toEqual(["https://demo.example.com"]);
+  });
+
+  it("adds a custom hostname on the SaaS zone for a Worker and routes it to the script", async () => {
+    const worker = await deploy({ "_worker.js": "export default {}" }, cf.env, { name: "Todo" } as any);
+    const { body } = await attach(worker.scriptName, "todo.example.com");
+
+    expect(body.domain).toMatchObject({ kind: "worker", status: "pending", certificate: "pending_validation" });
+    expect(body.domain.dnsRecords.map((r: any) => [r.type, r.name, r.value])).toEqual([
+      ["CNAME", "todo.example.com", "apps.launchwing.dev"],
+      ["TXT", "_cf-custom-hostname.todo.example.com", "ownership-token"],
+      ["TXT", "_acme-challenge.todo.example.com", "ssl-token"]
+    ]);
+    expect([...cf.state.workerRoutes.values()]).toEqual([
+      { zone: "zone1", pattern: "todo.example.com/*", script: worker.scriptName }
+    ]);
+  });
+
+  it("rejects bad, Cloudflare-owned and already attached hostnames", async () => {
+    await sandboxDeploy(cf.env, { id: "notes" });
+    await sandboxDeploy(cf.env, { id: "other" });
+    expect((await attach("launchwing-notes", "not a host")).status).toBe(400);
+    expect((await attach("launchwing-notes", "x.pages.dev")).status).toBe(400);
+    expect((await attach("launchwing-notes", undefined)).status).toBe(400);
+    await attach("launchwing-notes", "demo.example.com");
+    const taken = await attach("launchwing-other", "demo.example.com");
+    expect(taken.status).toBe(409);
+    expect(taken.body.error).toContain("already attached to launchwing-notes");
+    expect((await attach("launchwing-none", "demo.example.com")).status).toBe(404);
+  });
+
+  it("answers 501 for Workers when the SaaS zone isn't configured", async () => {
+    delete cf.env.CUSTOM_HOSTNAME_ZONE_ID;
+    const worker = await deploy({ "_worker.js": "export default {}" }, cf.env);
+    const { status: code, body } = await attach(worker.scriptName, "todo.example.com");
+    expect(code).toBe(501);
+    expect(body.error).toContain("CUSTOM_HOSTNAME_ZONE_ID");
+  });
+});
+
+describe("GET /apps/:name/domains/:hostname", () => {
+  it("reports verification from Cloudflare until the certificate is active", async () => {
+    await sandboxDeploy(cf.env, { id: "notes" });
+    await attach("launchwing-notes", "demo.example.com");
+    expect((await status("launchwing-notes", "demo.example.com")).body.domain.status).toBe("pending");
+
+    const domain = cf.state.pagesDomains.get("launchwing-notes/demo.example.com");
+    domain.status = "active";
+    domain.verification_data.status = "active";
+    domain.validation_data.status = "active";
+    const { body } = await status("launchwing-notes", "demo.example.com");
+    expect(body.domain).toMatchObject({ status: "active", certificate: "active", errors: [] });
+
+    const events = ((await status("launchwing-notes", "demo.example.com", "?stream=true")).body as string)
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(events.map((e) => [e.event, e.domain.status])).toEqual([
+      ["status", "active"],
+      ["done", "active"]
+    ]);
+  });
+
+  it("ends the stream when Cloudflare gives up on the certificate", async () => {
+    const worker = await deploy({ "_worker.js": "export default {}" }, cf.env);
+    await attach(worker.scriptName, "todo.example.com");
+    const [custom] = cf.state.customHostnames.values();
+    custom.ssl.status = "validation_timed_out";
+    custom.ssl.validation_errors = [{ message: "TXT record not found" }];
+
+    const events = ((await status(worker.scriptName, "todo.example.com", "?stream=true")).body as string)
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(events[events.length - 1]).toMatchObject({
+      event: "done",
+      domain: { status: "failed", errors: ["TXT record not found"] }
+    });
+  });
+
+  it("answers 404 for hostnames not attached to the app", async () => {
+    await sandboxDeploy(cf.env, { id: "notes" });
+    expect((await status("launchwing-notes", "nope.example.com")).status).toBe(404);
+  });
+});
+
+describe("sandbox teardown", () => {
+  it("detaches a removed Worker's custom hostnames", async () => {
+    const worker = await deploy({ "_worker.js": "export default {}" }, cf.env);
+    await attach(worker.scriptName, "todo.example.com");
+
+    const teardown = await teardownExpiredSandboxes(cf.env, Date.now() + 1000 * 3_600_000);
+    expect(teardown.removed[0].domains).toEqual(["todo.example.com"]);
+    expect(cf.state.customHostnames.size).toBe(0);
+    expect(cf.state.workerRoutes.size).toBe(0);
+    expect((await status(worker.scriptName, "todo.example.com")).status).toBe(404);
+  });
+});
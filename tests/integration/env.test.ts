@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { appRollbackHandler } from "../../src/api/apps";
+import { appEnvHandler, appEnvUpdateHandler } from "../../src/api/env";
+import { deploy } from "../../src/generation/stage6-deploy";
+import { EnvError } from "../../src/utils/appEnv";
+import { teardownExpiredSandboxes } from "../../src/utils/teardown";
+import { sandboxDeploy, useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const IR_WITH_ENV = {
+  version: 3,
+  app_type: "spa_api",
+  name: "Weather",
+  pages: ["/"],
+  api_routes: [{ path: "/api/forecast", method: "GET" }],
+  env: [
+    { name: "WEATHER_API_KEY", secret: true },
+    { name: "UNITS", required: false }
+  ]
+};
+
+const cf = useCloudflareStub({ ENV_SECRETS_KEY: btoa("k".repeat(32)) }, { deployments: true });
+
+async function getEnv(name: string) {
+  const res = await appEnvHandler(new Request(`http://orchestrator/apps/${name}/env`), cf.env, name);
+  return { status: res.status, body: (await res.json()) as any };
+}
+
+async function putEnv(name: string, body: unknown) {
+  const req = new Request(`http://orchestrator/apps/${name}/env`, {
+    method: "PUT",
+    body: JSON.stringify(body)
+  });
+  const res = await appEnvUpdateHandler(req, cf.env, name);
+  return { status: res.status, body: (await res.json()) as any };
+}
+
+describe("PUT /apps/:name/env", () => {
+  it("sets variables and secrets on the Pages project and never returns secret values", async () => {
+    await sandboxDeploy(cf.env, { id: "notes" });
+    const { status, body } = await putEnv("launchwing-notes", {
+      variables: { SITE_URL: "https://notes.example.com" },
+      secrets: { API_KEY: "sk-123" }
+    });
+    expect(status).toBe(200);
+    expect(body.entries.map((e: any) => [e.name, e.environment, e.secret, e.value, e.origin])).toEqual([
+      ["API_KEY", "preview", true, undefined, "user"],
+      ["API_KEY", "production", true, undefined, "user"],
+      ["SITE_URL", "preview", false, "https://notes.example.com", "user"],
+      ["SITE_URL", "production", false, "https://notes.example.com", "user"]
+    ]);
+    expect(JSON.stringify((await getEnv("launchwing-notes")).body)).not.toContain("sk-123");
+
+    const configs = cf.state.pagesProjects.get("launchwing-notes")!.deployment_configs;
+    expect(configs.production.env_vars.API_KEY).toEqual({ type: "secret_text", value: "sk-123" });
+    expect(configs.preview.env_vars.SITE_URL).toEqual({
+      type: "plain_text",
+      value: "https://notes.example.com"
+    });
+
+    // One environment at a time; null deletes.
+    await putEnv("launchwing-notes", { environment: "preview", variables: { SITE_URL: null } });
+    const after = (await getEnv("launchwing-notes")).body;
+    expect(after.entries.filter((e: any) => e.name === "SITE_URL").map((e: any) => e.environment)).toEqual([
+      "production"
+    ]);
+    expect(configs.preview.env_vars.SITE_URL).toBeUndefined();
+  });
+
+  it("rejects bad names and values, and secrets without ENV_SECRETS_KEY", async () => {
+    await sandboxDeploy(cf.env, { id: "notes" });
+    expect((await putEnv("launchwing-notes", { variables: { "BAD-NAME": "x" } })).status).toBe(400);
+    expect((await putEnv("launchwing-notes", { variables: { ASSETS: "x" } })).status).toBe(400);
+    expect((await putEnv("launchwing-notes", { variables: { COUNT: 3 } })).status).toBe(400);
+    expect((await putEnv("launchwing-notes", { environment: "staging", variables: {} })).status).toBe(400);
+    expect((await putEnv("launchwing-notes", {})).status).toBe(400);
+
+    delete cf.env.ENV_SECRETS_KEY;
+    const { status, body } = await putEnv("launchwing-notes", { secrets: { API_KEY: "sk-123" } });
+    expect(status).toBe(501);
+    expect(body.error).toContain("ENV_SECRETS_KEY");
+    expect((await getEnv("launchwing-notes")).body.entries).toEqual([]);
+  });
+});
+
+describe("deploys with IR `env`", () => {
+  it("refuses a Pages deploy until required variables are set, then passes them to the project", async () => {
+    const refused = await sandboxDeploy(cf.env, { id: "weather", ir: IR_WITH_ENV });
+    expect(refused.status).toBe(400);
+    expect(refused.body).toMatchObject({ ok: false, missing: ["WEATHER_API_KEY"] });
+    expect(refused.body.error).toContain("PUT /apps/launchwing-weather/env");
+    expect(cf.state.pagesProjects.size).toBe(0);
+
+    const before = (await getEnv("launchwing-weather")).body;
+    expect(before.declared.map((d: any) => d.name)).toEqual(["WEATHER_API_KEY", "UNITS"]);
+    expect(before.missing).toEqual({ production: ["WEATHER_API_KEY"], preview: ["WEATHER_API_KEY"] });
+
+    await putEnv("launchwing-weather", { environment: "production", secrets: { WEATHER_API_KEY: "w-1" } });
+    await putEnv("launchwing-weather", { variables: { DEBUG: "1" } });
+    const deployed = await sandboxDeploy(cf.env, { id: "weather", ir: IR_WITH_ENV });
+    expect(deployed.status).toBe(200);
+    expect(deployed.body.logs).toContain("Set 3 environment variables");
+    const configs = cf.state.pagesProjects.get("launchwing-weather")!.deployment_configs;
+    expect(configs.production.env_vars).toEqual({
+      WEATHER_API_KEY: { type: "secret_text", value: "w-1" },
+      DEBUG: { type: "plain_text", value: "1" }
+    });
+
+    const after = (await getEnv("launchwing-weather")).body;
+    expect(after.entries.map((e: any) => [e.name, e.environment, e.origin])).toEqual([
+      ["DEBUG", "preview", "user"],
+      ["DEBUG", "production", "user"],
+      ["WEATHER_API_KEY", "production", "ir"]
+    ]);
+    // Preview deployments need their own value.
+    const preview = await sandboxDeploy(cf.env, { id: "weather", ir: IR_WITH_ENV, branch: "feature" });
+    expect(preview.status).toBe(400);
+    expect(preview.body.error).toContain("(preview)");
+  });
+
+  it("binds a Worker's variables and secrets, and keeps them on rollback", async () => {
+    const ir = IR_WITH_ENV as any;
+    const worker = { "_worker.js": "export default {}" };
+    const error = await deploy(worker, cf.env, ir, { ideaId: "idea-1" }).catch((err) => err);
+    expect(error).toBeInstanceOf(EnvError);
+    expect(error.missing).toEqual(["WEATHER_API_KEY"]);
+    expect(cf.state.scripts.size).toBe(0);
+
+    await putEnv("weather-idea-1", { secrets: { WEATHER_API_KEY: "w-1" }, variables: { UNITS: "metric" } });
+    const v1 = await deploy(worker, cf.env, ir, { ideaId: "idea-1" });
+    const bindings = () => cf.state.scripts.get("weather-idea-1")!.metadata.bindings;
+    expect(bindings()).toEqual(
+      expect.arrayContaining([
+        { type: "secret_text", name: "WEATHER_API_KEY", text: "w-1" },
+        { type: "plain_text", name: "UNITS", text: "metric" }
+      ])
+    );
+    const preview = await putEnv("weather-idea-1", { environment: "preview", variables: { A: "x" } });
+    expect(preview.status).toBe(400);
+
+    await deploy(worker, cf.env, ir, { ideaId: "idea-1" });
+    await putEnv("weather-idea-1", { secrets: { WEATHER_API_KEY: "w-2" } });
+    const req = new Request("http://orchestrator/apps/weather-idea-1/rollback", {
+      method: "POST",
+      body: JSON.stringify({ deploymentId: v1.deploymentId })
+    });
+    expect((await appRollbackHandler(req, cf.env, "weather-idea-1")).status).toBe(200);
+    expect(bindings()).toContainEqual({ type: "secret_text", name: "WEATHER_API_KEY", text: "w-2" });
+  });
+});
+
+describe("GET /apps/:name/env", () => {
+  it("answers 404 for an unknown app, and forgets a removed one", async () => {
+    expect((await getEnv("launchwing-none")).status).toBe(404);
+
+    await sandboxDeploy(cf.env, { id: "notes" });
+    await putEnv("launchwing-notes", { variables: { A: "1" } });
+    await teardownExpiredSandboxes(cf.env, Date.now() + 1000 * 3_600_000);
+    expect((await getEnv("launchwing-notes")).body.entries).toEqual([]);
+    expect((await putEnv("launchwing-notes", { variables: { A: "1" } })).status).toBe(409);
+  });
+});
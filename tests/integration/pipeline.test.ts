@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { Env } from "../../src/types";
+import type { FakeFixture } from "../../src/llm";
+import { runGenerationStages, type StageEvent } from "../../src/generation/runGenerationStages";
+
+const IR = { version: 3, app_type: "spa", name: "Notes", pages: ["/"], api_routes: [] };
+
+const FILES = {
+  "wrangler.toml": 'name = "notes"\npages_build_output_dir = "."\n',
+  "styles.css": "body { font-family: sans-serif }",
+  // Links a script the manifest never planned, so repair has something to fix.
+  "index.html": '<link rel="stylesheet" href="/styles.css"><script type="module" src="./app.js"></script>',
+  "README.md": "# Notes"
+};
+
+/** The fake provider's answers: the IR, each planned file, then the repaired page. */
+function fixtures(): FakeFixture[] {
+  return [
+    { match: "App idea:", response: IR },
+    ...Object.entries(FILES).map(([path, content]) => ({ match: `Write ${path}.`, response: { content } })),
+    { match: "Fix index.html.", response: { content: '<link rel="stylesheet" href="/styles.css"><h1>Notes</h1>' } }
+  ];
+}
+
+describe("runGenerationStages with the fake provider", () => {
+  it("runs every stage offline and reports each one", async () => {
+    const env: Env = { LLM_PROVIDER: "fake", LLM_FAKE_FIXTURES: fixtures() };
+    const events: StageEvent[] = [];
+    const out = await runGenerationStages({ idea: "A notes app" }, env, (e) => {
+      events.push(e);
+    });
+
+    expect(out.ir).toEqual(IR);
+    expect(out.manifest.files.map((f) => f.path)).toEqual(Object.keys(FILES));
+    expect(out.artifacts["index.html"]).not.toContain("app.js");
+    expect(out.repair).toMatchObject({ clean: true, iterations: 1, remaining: [] });
+    expect(out.repair.fixed.map((f) => f.path)).toEqual(["index.html"]);
+    expect(out.provenance["README.md"]).toMatchObject({ model: "fake", attempts: 1 });
+    expect(out.usage).toMatchObject({
+      calls: 6,
+      costUsd: 0,
+      byStage: { ir: { calls: 1 }, files: { calls: 4 }, repair: { calls: 1 } }
+    });
+    expect(out.prompts.map((p) => p.id)).toEqual(["idea-to-ir", "slot-file", "repair"]);
+
+    expect(events.map((e) => `${e.step}:${e.status}`)).toEqual([
+      "ir:start",
+      "ir:done",
+      "manifest:start",
+      "manifest:done",
+      "files:start",
+      "files:done",
+      "repair:start",
+      "repair:done",
+      "smoke:start",
+      "smoke:done"
+    ]);
+  });
+
+  it("starts every run with all fixtures, even on a reused env", async () => {
+    const env: Env = { LLM_PROVIDER: "fake", LLM_FAKE_FIXTURES: fixtures() };
+    await runGenerationStages({ idea: "A notes app" }, env);
+    const again = await runGenerationStages({ idea: "A notes app" }, env);
+    expect(again.usage.calls).toBe(6);
+  });
+
+  it("warns when smoke tests were skipped for lack of a sandbox", async () => {
+    const env: Env = { LLM_PROVIDER: "fake", LLM_FAKE_FIXTURES: fixtures() };
+    const events: StageEvent[] = [];
+    const out = await runGenerationStages({ idea: "A notes app" }, env, (e) => {
+      events.push(e);
+    });
+
+    expect(out.smoke).toMatchObject({ passed: false, skipped: true });
+    expect(out.warnings).toEqual(["Untested bundle: smoke skipped: LOADER binding not configured"]);
+    const smokeDone = events.find((e) => e.step === "smoke" && e.status === "done");
+    expect(smokeDone).toMatchObject({ warning: out.warnings[0] });
+  });
+
+  it("stops when the budget runs out", async () => {
+    const env: Env = { LLM_PROVIDER: "fake", LLM_FAKE_FIXTURES: fixtures() };
+    const run = runGenerationStages({ idea: "A notes app", budget: { maxTokens: 50 } }, env);
+    await expect(run).rejects.toThrow("Generation stopped: token budget exceeded");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { IR } from "../../src/types/ir";
+import { provisionBindings } from "../../src/utils/provision";
+import { sandboxDeployHandler } from "../../src/api/sandbox-deploy";
+import { deploy } from "../../src/generation/stage6-deploy";
+import { useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const IR_WITH_BINDINGS: IR = {
+  version: 3,
+  app_type: "crud_d1",
+  name: "Notes",
+  pages: ["/"],
+  api_routes: [{ path: "/api/notes", method: "GET" }],
+  bindings: { D1: [{ name: "DB" }], KV: [{ name: "CACHE" }] }
+};
+const MIGRATION = "CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);\n-- seeded by the app";
+
+const cf = useCloudflareStub();
+
+describe("provisionBindings", () => {
+  it("creates D1 databases and KV namespaces named after the app and applies migrations", async () => {
+    const files = { "migrations/db/0001_init.sql": MIGRATION, "index.html": "" };
+    const result = await provisionBindings(cf.env, "notes-app", IR_WITH_BINDINGS, files);
+
+    expect(result).toEqual({
+      d1: [{ binding: "DB", name: "notes-app-db", id: "d1-1", created: true, migrations: ["0001_init.sql"] }],
+      kv: [{ binding: "CACHE", name: "notes-app-cache", id: "kv1", created: true }]
+    });
+    const db = cf.state.d1.get("d1-1")!;
+    expect(db.migrations).toEqual(["0001_init.sql"]);
+    // The trailing comment doesn't swallow the statement separator.
+    expect(db.sql.at(-1)).toBe(`${MIGRATION}\n;\nINSERT INTO d1_migrations (name) VALUES ('0001_init.sql');`);
+  });
+
+  it("reuses existing resources and only applies new migrations", async () => {
+    const files: Record<string, string> = { "migrations/db/0001_init.sql": MIGRATION };
+    await provisionBindings(cf.env, "notes-app", IR_WITH_BINDINGS, files);
+
+    files["migrations/db/0002_tags.sql"] = "ALTER TABLE notes ADD COLUMN tags TEXT;";
+    const logs: string[] = [];
+    const again = await provisionBindings(cf.env, "notes-app", IR_WITH_BINDINGS, files, async (m) => {
+      logs.push(m);
+    });
+
+    expect(cf.state.d1.size).toBe(1);
+    expect(cf.state.kv.size).toBe(1);
+    expect(again.d1[0]).toMatchObject({ created: false, migrations: ["0002_tags.sql"] });
+    expect(again.kv[0].created).toBe(false);
+    expect(cf.state.d1.get("d1-1")!.migrations).toEqual(["0001_init.sql", "0002_tags.sql"]);
+    expect(logs).toEqual([
+      "Using D1 database notes-app-db as DB",
+      "Applied 0002_tags.sql to notes-app-db",
+      "Using KV namespace notes-app-cache as CACHE"
+    ]);
+  });
+
+  it("uses the IR's database name and doesn't match other apps' databases by prefix", async () => {
+    cf.state.d1.set("other", { name: "notes-app-main-old", sql: [], migrations: [] });
+    const ir = { ...IR_WITH_BINDINGS, bindings: { D1: [{ name: "DB", database: "main" }] } };
+    const result = await provisionBindings(cf.env, "notes-app", ir, {});
+    expect(result.d1[0]).toMatchObject({ name: "notes-app-main", created: true });
+  });
+
+  it("finds KV namespaces past the first page", async () => {
+    for (let i = 0; i < 150; i++) cf.state.kv.set(`other${i}`, { title: `other-${i}` });
+    cf.state.kv.set("mine", { title: "notes-app-cache" });
+    const ir = { ...IR_WITH_BINDINGS, bindings: { KV: [{ name: "CACHE" }] } };
+    const result = await provisionBindings(cf.env, "notes-app", ir, {});
+    expect(result.kv[0]).toMatchObject({ id: "mine", created: false });
+  });
+});
+
+describe("deploying with bindings", () => {
+  it("binds provisioned resources to the Pages project in both environments", async () => {
+    const req = new Request("http://orchestrator/sandbox-deploy", {
+      method: "POST",
+      body: JSON.stringify({
+        id: "notes",
+        files: { "index.html": "<h1>Notes</h1>", "migrations/db/0001_init.sql": MIGRATION },
+        ir: IR_WITH_BINDINGS,
+        confirm: true
+      })
+    });
+    const body = (await (await sandboxDeployHandler(req, cf.env)).json()) as any;
+    expect(body.ok).toBe(true);
+    expect(body.logs).toContain("Bound DB, CACHE to launchwing-notes");
+
+    const config = {
+      env_vars: {},
+      d1_databases: { DB: { id: "d1-1" } },
+      kv_namespaces: { CACHE: { namespace_id: "kv1" } }
+    };
+    expect(cf.state.pagesProjects.get("launchwing-notes")!.deployment_configs).toEqual({
+      production: config,
+      preview: config
+    });
+    // Migrations set up the database; they aren't published with the site.
+    expect(Object.keys(cf.state.pagesDeployments[0].manifest)).toEqual(["/index.html"]);
+  });
+
+  it("rejects an invalid IR", async () => {
+    const req = new Request("http://orchestrator/sandbox-deploy", {
+      method: "POST",
+      body: JSON.stringify({ id: "x", files: { "index.html": "" }, ir: { name: 1 }, confirm: true })
+    });
+    expect((await sandboxDeployHandler(req, cf.env)).status).toBe(400);
+  });
+
+  it("binds provisioned resources to a stage6 Worker", async () => {
+    const result = await deploy(
+      { "_worker.js": "export default {}", "migrations/db/0001_init.sql": MIGRATION },
+      cf.env,
+      IR_WITH_BINDINGS
+    );
+    const { metadata } = cf.state.scripts.get(result.scriptName)!;
+    expect(metadata.bindings).toEqual([
+      { type: "d1", name: "DB", id: "d1-1" },
+      { type: "kv_namespace", name: "CACHE", namespace_id: "kv1" }
+    ]);
+    expect(cf.state.d1.get("d1-1")!.name).toBe(`${result.scriptName}-db`);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { sandboxDeployHandler } from "../../src/api/sandbox-deploy";
+import { useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const cf = useCloudflareStub();
+
+function post(body: unknown) {
+  return sandboxDeployHandler(
+    new Request("http://orchestrator/sandbox-deploy", { method: "POST", body: JSON.stringify(body) }),
+    cf.env
+  );
+}
+
+describe("POST /sandbox-deploy", () => {
+  it("creates the project and returns the deployment URL", async () => {
+    const res = await post({ id: "Idea_42", files: { "index.html": "<h1>hi</h1>" }, confirm: true });
+    const body = (await res.json()) as any;
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({
+      ok: true,
+      projectName: "launchwing-idea-42",
+      pagesDeploymentId: "dep1abcdef",
+      url: "https://dep1abcd.launchwing-idea-42.pages.dev",
+      environment: "production",
+      urls: { project: "https://launchwing-idea-42.pages.dev" }
+    });
+    expect(body.logs[0]).toBe("Created Pages project launchwing-idea-42");
+    expect(cf.state.pagesProjects.has("launchwing-idea-42")).toBe(true);
+  });
+
+  it("reuses an existing project", async () => {
+    cf.state.pagesProjects.set("my-app", { name: "my-app", production_branch: "main" });
+    const res = await post({ projectName: "my-app", files: { "index.html": "hi" }, confirm: true });
+    const body = (await res.json()) as any;
+    expect(body.logs[0]).toBe("Using Pages project my-app");
+    expect(cf.state.pagesDeployments).toHaveLength(1);
+  });
+
+  it("requires confirm: true before deploying", async () => {
+    const res = await post({ id: "x", files: { "index.html": "hi" } });
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as any).error).toMatch(/confirm/);
+    expect(cf.state.pagesDeployments).toHaveLength(0);
+  });
+
+  it("requires files", async () => {
+    const res = await post({ id: "x", confirm: true });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,195 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { deploymentKeepHandler } from "../../src/api/deployments";
+import { DeploymentRegistry, type DeploymentRecord } from "../../src/utils/deployments";
+import { teardownExpiredSandboxes } from "../../src/utils/teardown";
+import { useCloudflareStub } from "../fixtures/cloudflareEnv";
+
+const HOUR = 3_600_000;
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+
+const cf = useCloudflareStub({ SANDBOX_TTL_HOURS: "24" }, { deployments: true });
+let registry: DeploymentRegistry;
+
+beforeEach(() => {
+  const namespace = cf.env.DEPLOYMENTS!;
+  registry = namespace.get(namespace.idFromName("registry")) as unknown as DeploymentRegistry;
+});
+
+/**
+ * A finished deployment record made `hoursAgo` before NOW, with its target on the stand-in.
+ * `created`: whether the deployment created the target rather than reusing one.
+ */
+async function seed(
+  id: string,
+  kind: "pages" | "worker",
+  target: string,
+  hoursAgo: number,
+  { kept = false, created = true } = {}
+) {
+  const at = new Date(NOW - hoursAgo * HOUR).toISOString();
+  const record: DeploymentRecord = {
+    id,
+    kind,
+    target,
+    stage: "deployed",
+    stages: [{ name: "deployed", at }],
+    logs: [],
+    createdAt: at,
+    updatedAt: at,
+    ...(created ? { created } : {}),
+    ...(kept ? { kept } : {})
+  };
+  await registry.put(record);
+  if (kind === "pages") cf.state.pagesProjects.set(target, { name: target, production_branch: "main" });
+  else cf.state.scripts.set(target, { metadata: {}, modules: {} });
+}
+
+describe("teardownExpiredSandboxes", () => {
+  it("deletes Pages projects and Workers past the TTL and records what it removed", async () => {
+    await seed("d1", "pages", "launchwing-old", 30);
+    await seed("d2", "worker", "todo-abc123", 48);
+    await seed("d3", "pages", "launchwing-fresh", 2);
+
+    const teardown = await teardownExpiredSandboxes(cf.env, NOW);
+
+    expect(teardown.removed.map((r) => [r.kind, r.target, r.existed])).toEqual([
+      ["pages", "launchwing-old", true],
+      ["worker", "todo-abc123", true]
+    ]);
+    expect(teardown.ttlHours).toBe(24);
+    expect(cf.state.pagesProjects.has("launchwing-old")).toBe(false);
+    expect(cf.state.scripts.has("todo-abc123")).toBe(false);
+    expect(cf.state.pagesProjects.has("launchwing-fresh")).toBe(true);
+
+    expect((await registry.get("d1"))!.removedAt).toBe(teardown.at);
+    expect((await registry.get("d3"))!.removedAt).toBeUndefined();
+    const storage = (registry as any).ctx.storage.data as Map<string, unknown>;
+    expect(storage.get(`teardown:${teardown.at}`)).toEqual(teardown);
+  });
+
+  it("deletes the D1 databases and KV namespaces provisioned for a removed target", async () => {
+    await seed("d1", "pages", "launchwing-notes", 30);
+    cf.state.d1.set("db1", { name: "launchwing-notes-db", sql: [], migrations: [] });
+    cf.state.kv.set("kv1", { title: "launchwing-notes-cache" });
+    const resources = { d1: [{ id: "db1", created: true }], kv: [{ id: "kv1", created: true }] };
+    await registry.put({ ...(await registry.get("d1"))!, resources });
+
+    const teardown = await teardownExpiredSandboxes(cf.env, NOW);
+    expect(teardown.removed[0].resources).toEqual({ d1: ["db1"], kv: ["kv1"] });
+    expect(cf.state.d1.size).toBe(0);
+    expect(cf.state.kv.size).toBe(0);
+  });
+
+  it("leaves targets and resources LaunchWing didn't create in place", async () => {
+    await seed("d1", "pages", "launchwing-app", 30, { created: false });
+    await seed("d2", "pages", "launchwing-notes", 30);
+    cf.state.d1.set("db1", { name: "launchwing-notes-db", sql: [], migrations: [] });
+    cf.state.kv.set("kv1", { title: "launchwing-notes-cache" });
+    const resources = { d1: [{ id: "db1", created: false }], kv: [{ id: "kv1", created: true }] };
+    await registry.put({ ...(await registry.get("d2"))!, resources });
+
+    const teardown = await teardownExpiredSandboxes(cf.env, NOW);
+    expect(teardown.skipped).toEqual(["launchwing-app"]);
+    expect(teardown.removed.map((r) => [r.target, r.resources])).toEqual([
+      ["launchwing-notes", { d1: [], kv: ["kv1"] }]
+    ]);
+    expect(cf.state.pagesProjects.has("launchwing-app")).toBe(true);
+    expect((await registry.get("d1"))!.removedAt).toBeUndefined();
+    expect(cf.state.d1.has("db1")).toBe(true);
+    expect(cf.state.kv.size).toBe(0);
+  });
+
+  it("drops the stored bundles of a removed Worker", async () => {
+    const worker = { mainModule: "_worker.js", modules: ["_worker.js"], bindings: [] };
+    await seed("d1", "worker", "old-abc123", 30);
+    await seed("d2", "worker", "new-abc123", 1);
+    const files = (main: string) => ({ "_worker.js": main, "a.css": "h-shared" });
+    await registry.put({ ...(await registry.get("d1"))!, worker, files: files("h-old") });
+    await registry.put({ ...(await registry.get("d2"))!, worker, files: files("h-new") });
+    await registry.putFiles("old-abc123", { "h-old": "old", "h-shared": "css" });
+    await registry.putFiles("new-abc123", { "h-new": "new", "h-shared": "css" });
+
+    await teardownExpiredSandboxes(cf.env, NOW);
+    expect(await registry.getFiles("old-abc123", ["h-old", "h-shared"])).toEqual({});
+    expect(await registry.getFiles("new-abc123", ["h-new", "h-shared"])).toEqual({ "h-new": "new", "h-shared": "css" });
+  });
+
+  it("goes by a target's latest deployment", async () => {
+    await seed("d1", "pages", "launchwing-busy", 100);
+    await seed("d2", "pages", "launchwing-busy", 1);
+    expect((await teardownExpiredSandboxes(cf.env, NOW)).removed).toEqual([]);
+    expect(cf.state.pagesProjects.has("launchwing-busy")).toBe(true);
+  });
+
+  it("leaves kept targets alone", async () => {
+    await seed("d1", "pages", "launchwing-demo", 200);
+    await seed("d2", "pages", "launchwing-demo", 100, { kept: true });
+    const teardown = await teardownExpiredSandboxes(cf.env, NOW);
+    expect(teardown).toMatchObject({ removed: [], kept: ["launchwing-demo"] });
+    expect(cf.state.pagesProjects.has("launchwing-demo")).toBe(true);
+  });
+
+  it("records targets that were already gone, and doesn't revisit removed ones", async () => {
+    await seed("d1", "worker", "gone-abc123", 48);
+    cf.state.scripts.delete("gone-abc123");
+    expect((await teardownExpiredSandboxes(cf.env, NOW)).removed[0]).toMatchObject({ existed: false });
+    expect((await teardownExpiredSandboxes(cf.env, NOW + HOUR)).removed).toEqual([]);
+  });
+
+  it("keeps going after a failed deletion and retries it next time", async () => {
+    await seed("d1", "pages", "launchwing-stuck", 48);
+    await seed("d2", "worker", "other-abc123", 48);
+    cf.state.failures.set(/\/pages\/projects\/launchwing-stuck$/, {
+      status: 400,
+      errors: [{ code: 8000076, message: "Project has too many deployments" }]
+    });
+
+    const first = await teardownExpiredSandboxes(cf.env, NOW);
+    expect(first.removed.map((r) => r.target)).toEqual(["other-abc123"]);
+    expect(first.failed[0]).toMatchObject({ target: "launchwing-stuck" });
+    expect(first.failed[0].error).toContain("8000076");
+
+    const second = await teardownExpiredSandboxes(cf.env, NOW + HOUR);
+    expect(second.removed.map((r) => r.target)).toEqual(["launchwing-stuck"]);
+  });
+});
+
+describe("DeploymentRegistry", () => {
+  it("reads one target's history from its own index, newest first", async () => {
+    await seed("d1", "pages", "launchwing-notes", 3);
+    await seed("d2", "pages", "launchwing-notes-2", 2);
+    await seed("d3", "pages", "launchwing-notes", 1);
+
+    expect((await registry.history("launchwing-notes")).map((r) => r.id)).toEqual(["d3", "d1"]);
+    expect((await registry.history("launchwing-notes", 1)).map((r) => r.id)).toEqual(["d3"]);
+    expect(await registry.liveTargets()).toEqual([
+      { kind: "pages", target: "launchwing-notes", lastDeployedAt: new Date(NOW - HOUR).toISOString() },
+      { kind: "pages", target: "launchwing-notes-2", lastDeployedAt: new Date(NOW - 2 * HOUR).toISOString() }
+    ]);
+  });
+});
+
+describe("POST /deployments/:id/keep", () => {
+  const keep = async (id: string, body?: unknown) => {
+    const req = new Request(`http://orchestrator/deployments/${id}/keep`, {
+      method: "POST",
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const res = await deploymentKeepHandler(req, cf.env, id);
+    return { status: res.status, body: (await res.json()) as any };
+  };
+
+  it("marks and unmarks a deployment as kept", async () => {
+    await seed("d1", "pages", "launchwing-demo", 1);
+    expect((await keep("d1")).body.deployment.kept).toBe(true);
+    expect((await keep("d1", { keep: false })).body.deployment.kept).toBe(false);
+    expect((await registry.get("d1"))!.kept).toBe(false);
+  });
+
+  it("rejects unknown and already removed deployments", async () => {
+    expect((await keep("nope")).status).toBe(404);
+    await seed("d1", "worker", "old-abc123", 48);
+    await teardownExpiredSandboxes(cf.env, NOW);
+    expect((await keep("d1")).status).toBe(409);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { analyzeBundle, resolveReference } from "../../src/utils/analyzeBundle";
+
+describe("analyzeBundle", () => {
+  it("finds nothing wrong with a consistent bundle", () => {
+    const files = {
+      "index.html": '<link rel="stylesheet" href="/styles.css"><script type="module" src="./app.js"></script>',
+      "styles.css": "body { margin: 0 }",
+      "app.js": 'import { get } from "./lib.js";\nexport const main = () => get("/api/todos");',
+      "lib.js": "export async function get(url) { return fetch(url); }",
+      "config.json": '{"ok": true}',
+      "wrangler.toml": 'name = "todo"\n[[d1_databases]]\nbinding = "DB"\n'
+    };
+    expect(analyzeBundle(files)).toEqual([]);
+  });
+
+  it("reports syntax errors with their line", () => {
+    const diagnostics = analyzeBundle({
+      "app.js": "const a = 1;\nconst = 2;",
+      "data.json": "{ nope }",
+      "wrangler.toml": 'name = "x"\ncompatibility_date =\n'
+    });
+    expect(diagnostics.map((d) => [d.path, d.kind, d.line])).toEqual([
+      ["app.js", "syntax", 2],
+      ["data.json", "syntax", undefined],
+      ["wrangler.toml", "syntax", 2]
+    ]);
+    expect(diagnostics[2].message).toBe("missing value for compatibility_date");
+  });
+
+  it("reports missing files, missing exports and bare imports", () => {
+    const diagnostics = analyzeBundle({
+      "index.html": '<script type="module">\nimport { boot } from "./app.js";\n</script><script src="./gone.js"></script>',
+      "app.js": 'import { h } from "preact";\nimport { nope } from "./lib.js";\nexport function start() {}',
+      "lib.js": "export const yes = 1;"
+    });
+    expect(diagnostics).toEqual([
+      { path: "index.html", kind: "reference", line: 3, message: '"./gone.js" does not exist in the bundle' },
+      { path: "index.html", kind: "import", line: 2, message: '"app.js" has no export named "boot"' },
+      {
+        path: "app.js",
+        kind: "import",
+        line: 1,
+        message: 'bare import "preact" cannot be resolved without a build step'
+      },
+      { path: "app.js", kind: "import", line: 2, message: '"lib.js" has no export named "nope"' }
+    ]);
+  });
+
+  it("flags TypeScript as unchecked but still resolves its imports", () => {
+    const diagnostics = analyzeBundle({ "src/main.ts": 'import { x } from "./gone";\nconst a: number = ;' });
+    expect(diagnostics).toEqual([
+      {
+        path: "src/main.ts",
+        kind: "unchecked",
+        message: "TypeScript isn't syntax-checked; only its imports were resolved"
+      },
+      { path: "src/main.ts", kind: "import", line: 1, message: '"./gone" does not exist in the bundle' }
+    ]);
+  });
+
+  it("leaves external URLs alone", () => {
+    const files = { "index.html": '<script src="https://cdn.example.com/x.js"></script>' };
+    expect(analyzeBundle(files)).toEqual([]);
+  });
+});
+
+describe("resolveReference", () => {
+  const files = { "worker/lib/http.js": "", "settings/index.html": "", "src/util.ts": "" };
+
+  it("resolves relative, absolute and directory references", () => {
+    expect(resolveReference("worker/routes/todos.get.js", "../lib/http.js", files)).toBe("worker/lib/http.js");
+    expect(resolveReference("index.html", "/settings/", files)).toBe("settings/index.html");
+    expect(resolveReference("src/main.ts", "./util", files)).toBe("src/util.ts");
+    expect(resolveReference("index.html", "./missing.js", files)).toBeNull();
+  });
+});
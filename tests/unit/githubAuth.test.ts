@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { githubTarget } from "../../src/utils/githubAuth";
+
+const APP = { GITHUB_APP_ID: "1", GITHUB_APP_PRIVATE_KEY: "not a key", GITHUB_ORG: "launchwing" };
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", vi.fn());
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("githubTarget", () => {
+  it("falls back to GITHUB_TOKEN for GITHUB_ORG when the App lookup fails", async () => {
+    const gh = await githubTarget({ ...APP, GITHUB_TOKEN: "pat" });
+    expect(gh).toEqual({ owner: "launchwing", ownerType: "Organization", token: "pat", via: "pat" });
+  });
+
+  it("keeps the App error for other owners, or without GITHUB_TOKEN", async () => {
+    await expect(githubTarget({ ...APP, GITHUB_TOKEN: "pat" }, "someone-else")).rejects.toThrow();
+    await expect(githubTarget(APP)).rejects.toThrow();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
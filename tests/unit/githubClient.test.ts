@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GH_API, ghFetch, GitHubRateLimitError } from "../../src/utils/githubClient";
+
+const URL_REPO = `${GH_API}/repos/launchwing/app`;
+let fetchMock: ReturnType<typeof vi.fn>;
+let tokens = 0;
+/** Rate-limit state is kept per token for the isolate, so every test gets its own. */
+const token = () => `token-${++tokens}`;
+
+const reply = (status: number, headers: Record<string, string> = {}, body = "{}") =>
+  new Response(body, { status, headers });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  fetchMock = vi.fn();
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/** Run ghFetch to completion, skipping through every wait. */
+async function run(promise: Promise<Response>) {
+  const settled = promise.then(
+    (res) => ({ res }),
+    (err) => ({ err })
+  );
+  await vi.runAllTimersAsync();
+  return settled as Promise<{ res?: Response; err?: any }>;
+}
+
+describe("ghFetch", () => {
+  it("retries a 429 after retry-after", async () => {
+    fetchMock.mockResolvedValueOnce(reply(429, { "retry-after": "2" })).mockResolvedValueOnce(reply(200));
+    const started = Date.now();
+    const { res } = await run(ghFetch(token(), "POST", URL_REPO, { body: {} }));
+    expect(res!.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(2000);
+  });
+
+  it("retries a 403 secondary rate limit, but returns any other 403", async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(403, {}, '{"message":"You have exceeded a secondary rate limit"}'))
+      .mockResolvedValueOnce(reply(201));
+    expect((await run(ghFetch(token(), "POST", URL_REPO))).res!.status).toBe(201);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockReset().mockResolvedValueOnce(reply(403, {}, '{"message":"Resource not accessible"}'));
+    expect((await run(ghFetch(token(), "GET", URL_REPO))).res!.status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits for the reset of a token that ran out before calling again", async () => {
+    const reset = String(Math.ceil(Date.now() / 1000) + 30);
+    const t = token();
+    fetchMock.mockResolvedValue(reply(200, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": reset }));
+    await run(ghFetch(t, "GET", URL_REPO));
+    fetchMock.mockResolvedValue(reply(200));
+    await run(ghFetch(t, "GET", URL_REPO));
+    expect(Date.now()).toBeGreaterThanOrEqual(Number(reset) * 1000);
+  });
+
+  it("fails fast with GitHubRateLimitError when the wait is too long", async () => {
+    fetchMock.mockResolvedValue(reply(429, { "retry-after": "600" }));
+    const { err } = await run(ghFetch(token(), "GET", URL_REPO));
+    expect(err).toBeInstanceOf(GitHubRateLimitError);
+    expect(err.message).toBe("GitHub rate limit hit on GET /repos/launchwing/app; retry in 600s");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries 5xx only for idempotent requests", async () => {
+    fetchMock.mockResolvedValueOnce(reply(502)).mockResolvedValueOnce(reply(200));
+    expect((await run(ghFetch(token(), "GET", URL_REPO))).res!.status).toBe(200);
+
+    fetchMock.mockReset().mockResolvedValue(reply(502));
+    expect((await run(ghFetch(token(), "POST", URL_REPO))).res!.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((await run(ghFetch(token(), "POST", URL_REPO, { idempotent: true }))).res!.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { IR_VERSION, upgradeIR } from "../../src/types/ir";
+import { validateIR } from "../../src/utils/schema";
+
+describe("upgradeIR", () => {
+  it("brings a v1 IR (no version) up to the current version", () => {
+    const ir = upgradeIR({
+      app_type: "spa_api",
+      name: "Notes",
+      pages: ["Notes", "/"],
+      api_routes: [{ path: "api/notes", method: "post" }, { path: "/api/notes" }]
+    });
+    expect(ir).toEqual({
+      version: IR_VERSION,
+      app_type: "spa_api",
+      name: "Notes",
+      pages: ["/notes", "/"],
+      api_routes: [
+        { path: "/api/notes", method: "POST" },
+        { path: "/api/notes", method: "GET" }
+      ]
+    });
+    expect(validateIR(ir).valid).toBe(true);
+  });
+
+  it("gives a v1 IR without pages the root page", () => {
+    expect(upgradeIR({ version: 1, app_type: "api", name: "Hook" })).toMatchObject({ pages: ["/"], api_routes: [] });
+  });
+
+  it("leaves current IRs, newer IRs and non-objects untouched", () => {
+    const current = { version: IR_VERSION, app_type: "spa", name: "A", pages: ["/"], api_routes: [] };
+    expect(upgradeIR(current)).toEqual(current);
+    expect(upgradeIR({ version: IR_VERSION + 1 })).toEqual({ version: IR_VERSION + 1 });
+    expect(upgradeIR("nope")).toBe("nope");
+    expect(upgradeIR(null)).toBe(null);
+  });
+
+  it("throws for versions no migration starts from", () => {
+    expect(() => upgradeIR({ version: 0 })).toThrow("No IR migration from version 0");
+    expect(() => upgradeIR({ version: 1.5 })).toThrow("No IR migration from version 1.5");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { IR } from "../../src/types/ir";
+import type { Env } from "../../src/types";
+import { generationOrder, irToManifest, pageFile, routeFile } from "../../src/generation/stage2-IRtoManifest";
+
+const env = {} as Env;
+
+describe("routeFile", () => {
+  it("maps segments to dots and params to brackets", () => {
+    expect(routeFile("/api/todos/:id", "GET")).toBe("worker/routes/todos.[id].get.js");
+    expect(routeFile("/api/todos", "POST")).toBe("worker/routes/todos.post.js");
+    expect(routeFile("/api", "GET")).toBe("worker/routes/index.get.js");
+  });
+
+  it("keeps routes that differ only in separators or params apart", () => {
+    const paths = ["/api/a/b", "/api/a-b", "/api/todos/:id", "/api/todos/by-id", "/api/todos/[id]"];
+    const files = paths.map((p) => routeFile(p, "GET"));
+    expect(new Set(files).size).toBe(paths.length);
+  });
+
+  it("replaces characters that don't belong in a file name", () => {
+    expect(routeFile("/api/v1.2/x:y", "DELETE")).toBe("worker/routes/v1_2.x_y.delete.js");
+  });
+});
+
+describe("irToManifest", () => {
+  const ir: IR = {
+    version: 3,
+    app_type: "crud_d1",
+    name: "Todo",
+    pages: ["/", "/settings"],
+    api_routes: [
+      { path: "/api/todos", method: "GET" },
+      { path: "/api/todos/:id", method: "DELETE" }
+    ],
+    bindings: { D1: [{ name: "DB" }] }
+  };
+
+  it("plans pages, routes, libs and migrations with their dependencies", async () => {
+    const { files } = await irToManifest(ir, env);
+    expect(files.map((f) => f.path)).toEqual([
+      "wrangler.toml",
+      "migrations/db/0001_init.sql",
+      "styles.css",
+      "app.js",
+      "index.html",
+      "settings/index.html",
+      "worker/lib/http.js",
+      "worker/lib/store.js",
+      "worker/routes/todos.get.js",
+      "worker/routes/todos.[id].delete.js",
+      "_worker.js",
+      "README.md"
+    ]);
+    const worker = files.find((f) => f.path === "_worker.js")!;
+    expect(worker.dependsOn).toEqual([
+      "worker/lib/http.js",
+      "worker/routes/todos.get.js",
+      "worker/routes/todos.[id].delete.js"
+    ]);
+    expect(pageFile("/settings/")).toBe("settings/index.html");
+  });
+
+  it("orders generation so every file comes after its dependencies", async () => {
+    const levels = generationOrder(await irToManifest(ir, env));
+    const levelOf = new Map(levels.flatMap((level, i) => level.map((f) => [f.path, i] as const)));
+    for (const f of levels.flat()) {
+      for (const dep of f.dependsOn) expect(levelOf.get(dep)!).toBeLessThan(levelOf.get(f.path)!);
+    }
+    expect(levels.at(-1)!.map((f) => f.path)).toEqual(["_worker.js"]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { getPrompt, listPrompts, parsePromptVersions, promptRef, renderPrompt } from "../../src/prompts";
+
+describe("renderPrompt", () => {
+  it("fills every placeholder of the latest version", () => {
+    const { text, ref } = renderPrompt("idea-to-ir", { schema: '{"type":"object"}' });
+    expect(text).toContain('{"type":"object"}');
+    expect(text).not.toMatch(/\{\{|^---/);
+    expect(ref).toEqual(promptRef("idea-to-ir"));
+    expect(ref.version).toBe("2");
+    expect(ref.hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("renders a pinned version, by number or hash prefix", () => {
+    const v1 = renderPrompt("idea-to-ir", { schema: "{}" }, "1").ref;
+    expect(v1.version).toBe("1");
+    expect(v1.hash).not.toBe(promptRef("idea-to-ir").hash);
+    expect(renderPrompt("idea-to-ir", { schema: "{}" }, v1.hash.slice(0, 8)).ref).toEqual(v1);
+  });
+
+  it("refuses to render with a variable missing", () => {
+    const vars = { file_path: "a.js" } as any;
+    expect(() => renderPrompt("repair", vars)).toThrow(/^Prompt repair@\d+ needs \{\{\w+\}\}$/);
+  });
+
+  it("hashes the template text, so the same text always has the same hash", () => {
+    const hashes = listPrompts().map((p) => p.hash);
+    expect(new Set(hashes).size).toBe(hashes.length);
+    expect(getPrompt("slot-file").hash).toBe(promptRef("slot-file").hash);
+  });
+});
+
+describe("parsePromptVersions", () => {
+  it("checks every pin up front", () => {
+    expect(parsePromptVersions({ "idea-to-ir": "1" })).toEqual({ "idea-to-ir": "1" });
+    expect(() => parsePromptVersions({ "idea-to-ir": "9" })).toThrow(
+      'Unknown version "9" of prompt idea-to-ir (have 2, 1)'
+    );
+    expect(() => parsePromptVersions({ nope: "1" })).toThrow("Unknown prompt: nope");
+    // Short hash prefixes could match by accident.
+    expect(() => parsePromptVersions({ repair: promptRef("repair").hash.slice(0, 4) })).toThrow("Unknown version");
+  });
+});
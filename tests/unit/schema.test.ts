@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { IR_VERSION } from "../../src/types/ir";
+import { validateIR, validateSchema } from "../../src/utils/schema";
+
+const IR = {
+  version: IR_VERSION,
+  app_type: "spa_api",
+  name: "Todo",
+  pages: ["/"],
+  api_routes: [{ path: "/api/todos/:id", method: "GET" }]
+};
+
+describe("validateIR", () => {
+  it("accepts a valid IR", () => {
+    expect(validateIR(IR)).toEqual({ valid: true, ir: IR });
+  });
+
+  it("reports every error with its path", () => {
+    const result = validateIR({ ...IR, name: "", pages: ["Settings"], extra: 1 });
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.errors).toEqual([
+      { path: "$.name", message: "must be at least 1 characters" },
+      { path: "$.pages[0]", message: "must match ^/([a-z0-9-]+(/[a-z0-9-]+)*)?$" },
+      { path: "$.extra", message: "is not allowed" }
+    ]);
+    expect(result.error).toContain("$.name must be at least 1 characters; ");
+  });
+
+  it("requires the current version and the required fields", () => {
+    const { pages: _pages, ...rest } = IR;
+    const result = validateIR({ ...rest, version: IR_VERSION - 1 });
+    expect(!result.valid && result.errors.map((e) => e.path)).toEqual(["$.pages", "$.version"]);
+  });
+
+  it("rejects the same method and path twice", () => {
+    const result = validateIR({ ...IR, api_routes: [...IR.api_routes, { path: "/api/todos/:id", method: "GET" }] });
+    expect(!result.valid && result.errors).toEqual([
+      { path: "$.api_routes[1]", message: "duplicates GET /api/todos/:id" }
+    ]);
+  });
+
+  it("rejects routes that differ only in param names or would share a route module", () => {
+    const api_routes = [
+      ...IR.api_routes,
+      { path: "/api/todos/:todoId", method: "GET" },
+      { path: "/api/v1.0/x", method: "GET" },
+      { path: "/api/v1_0/x", method: "GET" },
+      { path: "/api/a:b", method: "POST" },
+      { path: "/api/a_b", method: "POST" }
+    ];
+    const result = validateIR({ ...IR, api_routes });
+    expect(!result.valid && result.errors).toEqual([
+      { path: "$.api_routes[1]", message: "duplicates GET /api/todos/:id" },
+      { path: "$.api_routes[3]", message: "would share worker/routes/v1_0.x.get.js with GET /api/v1.0/x; rename one" },
+      { path: "$.api_routes[5]", message: "would share worker/routes/a_b.post.js with POST /api/a:b; rename one" }
+    ]);
+  });
+});
+
+describe("validateSchema", () => {
+  it("stops at a type mismatch instead of checking the value's contents", () => {
+    const schema = { type: "array", items: { type: "string" } } as const;
+    expect(validateSchema(schema, { 0: "a" })).toEqual([{ path: "$", message: "expected array, got object" }]);
+    expect(validateSchema(schema, ["a", 1])).toEqual([{ path: "$[1]", message: "expected string, got number" }]);
+  });
+});
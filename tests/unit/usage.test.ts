@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { BudgetExceededError, createUsageMeter, meteredProvider, parseBudget } from "../../src/llm/usage";
+import type { LlmProvider, LlmRequest } from "../../src/llm/types";
+
+/** A provider that answers every call with `usage` and remembers the requests it got. */
+function recordingProvider(usage = { inputTokens: 100, outputTokens: 50 }, model = "gpt-4o-mini") {
+  const requests: LlmRequest[] = [];
+  const provider: LlmProvider = {
+    name: "test",
+    model,
+    async complete(req) {
+      requests.push(req);
+      return { text: "{}", provider: "test", model, usage };
+    }
+  };
+  return { provider, requests };
+}
+
+const ask = { messages: [{ role: "user" as const, content: "hi" }] };
+
+describe("meteredProvider", () => {
+  it("caps output at the caller's maxOutputTokens, else the meter default", async () => {
+    const { provider, requests } = recordingProvider();
+    const llm = meteredProvider(provider, createUsageMeter({ maxOutputTokens: 2000 }));
+    await llm.complete(ask);
+    await llm.complete({ ...ask, maxOutputTokens: 300 });
+    expect(requests.map((r) => r.maxOutputTokens)).toEqual([2000, 300]);
+  });
+
+  it("leaves output uncapped without a budget or LLM_MAX_OUTPUT_TOKENS", async () => {
+    const { provider, requests } = recordingProvider();
+    await meteredProvider(provider, createUsageMeter()).complete(ask);
+    await meteredProvider(provider, createUsageMeter({ budget: { maxCostUsd: 1 } })).complete(ask);
+    expect(requests.map((r) => r.maxOutputTokens)).toEqual([undefined, 4096]);
+  });
+
+  it("clamps the output cap to the tokens left in the budget", async () => {
+    const { provider, requests } = recordingProvider();
+    const llm = meteredProvider(provider, createUsageMeter({ budget: { maxTokens: 1000 } }));
+    await llm.complete({ ...ask, maxOutputTokens: 4000 });
+    await llm.complete({ ...ask, maxOutputTokens: 4000 });
+    expect(requests.map((r) => r.maxOutputTokens)).toEqual([1000, 850]);
+  });
+
+  it("stops once the budget is used up, with the usage so far", async () => {
+    const { provider, requests } = recordingProvider({ inputTokens: 600, outputTokens: 500 });
+    const meter = createUsageMeter({ budget: { maxTokens: 1000 } });
+    const llm = meteredProvider(provider, meter.scope("files"));
+
+    const err = await llm.complete(ask).catch((e) => e);
+    expect(err).toBeInstanceOf(BudgetExceededError);
+    expect(err.message).toBe("Generation stopped: token budget exceeded: 1100 of 1000 tokens used");
+    expect(err.usage).toMatchObject({ calls: 1, inputTokens: 600, byStage: { files: { calls: 1 } } });
+
+    await expect(llm.complete(ask)).rejects.toThrow(BudgetExceededError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("prices calls per model and totals them per stage", async () => {
+    const meter = createUsageMeter({ budget: { maxCostUsd: 1 } });
+    const call = (model: string, stage: string) =>
+      meteredProvider(recordingProvider(undefined, model).provider, meter.scope(stage)).complete(ask);
+    await call("gpt-4o-mini", "ir");
+    await call("gpt-4o-mini-2024-07-18", "files");
+    await call("mystery", "files");
+
+    const report = meter.report();
+    // 100 input at $0.15/M and 50 output at $0.6/M, twice; "mystery" is unpriced
+    expect(report).toMatchObject({ calls: 3, inputTokens: 300, outputTokens: 150, costUsd: 0.00009 });
+    expect(report.byStage.files).toMatchObject({ calls: 2, costUsd: 0.000045 });
+    expect(report.unpricedModels).toEqual(["mystery"]);
+    expect(report.budget).toEqual({ maxCostUsd: 1 });
+  });
+});
+
+describe("parseBudget", () => {
+  it("accepts positive limits and rejects anything else", () => {
+    expect(parseBudget(undefined)).toBeUndefined();
+    expect(parseBudget({ maxTokens: 5000 })).toEqual({ maxTokens: 5000, maxCostUsd: undefined });
+    expect(() => parseBudget({ maxCostUsd: 0 })).toThrow("budget.maxCostUsd must be a positive number");
+    expect(() => parseBudget([1])).toThrow("budget must be an object");
+  });
+});
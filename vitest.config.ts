@@ -0,0 +1,31 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "node:url";
+
+const src = (dir: string) => fileURLToPath(new URL(`./src/${dir}`, import.meta.url));
+
+// Same path aliases as tsconfig.json
+export default defineConfig({
+  plugins: [
+    // Prompt templates load as text, like wrangler's Text rule for **/*.md
+    {
+      name: "text-modules",
+      transform(code, id) {
+        if (id.endsWith(".md")) return { code: `export default ${JSON.stringify(code)};`, map: null };
+      }
+    }
+  ],
+  resolve: {
+    alias: {
+      "@utils": src("utils"),
+      "@api": src("api"),
+      "@t": src("types"),
+      "@llm": src("llm"),
+      "@prompts": src("prompts"),
+      // Workers runtime module; only DurableObject is used, as a base class
+      "cloudflare:workers": fileURLToPath(new URL("./tests/fixtures/cloudflareWorkers.ts", import.meta.url))
+    }
+  },
+  test: {
+    include: ["tests/**/*.test.ts"]
+  }
+});